@@ -0,0 +1,238 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Rule } from '../components/RuleBuilder';
+import { defaultSchemas, ENTITIES, exportColumns } from '../utils/entitySchema';
+import { CsvDelimiter, DEFAULT_DELIMITED_OPTIONS, DelimitedOptions, readEntityRows, serializeRows, TextEncoding } from '../utils/fileFormats';
+import { canonicalRows } from '../utils/normalizeData';
+import { DEFAULT_PHASE_CALENDAR, PhaseCalendar } from '../utils/phaseCalendar';
+import { parseRulesFile } from '../utils/ruleImport';
+import { Entity, listValidators, validateAllData, ValidationResult } from '../utils/validationUtils';
+import { detectSheets, readWorkbookSheets } from '../utils/workbookUtils';
+import { SEVERITIES } from '../utils/validators';
+
+// Runs the app's validation on files from disk, for batch jobs and CI. Exits 1 when any issue has
+// error severity and 2 when the input can't be read, so a pipeline can stop on bad data.
+
+const USAGE = `Usage: npm run validate-data -- [options]
+
+Input (CSV, TSV, JSON, XLSX or ODS):
+  --clients <file>       clients file
+  --workers <file>       workers file
+  --tasks <file>         tasks file
+  --workbook <file>      one workbook holding all three; sheets are matched by their columns
+  --rules <file>         rules.json from "Export Rules as JSON" (also supplies the phase calendar)
+  --delimiter <d>        CSV delimiter: auto (default), ",", ";", "tab" or "|"
+  --encoding <e>         utf-8 (default), windows-1252, iso-8859-1 or utf-16le
+
+Checks and output:
+  --disable <ids>        comma-separated validator ids to skip (see --list-validators)
+  --format <f>           human (default) or json
+  --out <dir>            write cleaned <entity>_cleaned.csv files to this directory
+  --list-validators      print the validator ids and exit
+  --help                 print this message`;
+
+interface CliOptions {
+  files: Partial<Record<Entity, string>>;
+  workbook?: string;
+  rules?: string;
+  fileOptions: DelimitedOptions;
+  disabledValidators: string[];
+  format: 'human' | 'json';
+  out?: string;
+  listValidators: boolean;
+  help: boolean;
+}
+
+// Input problems: reported with the usage hint and exit code 2.
+class UsageError extends Error {}
+
+const DELIMITERS: Record<string, CsvDelimiter> = { auto: 'auto', ',': ',', ';': ';', tab: '\t', '|': '|' };
+const ENCODINGS: TextEncoding[] = ['utf-8', 'windows-1252', 'iso-8859-1', 'utf-16le'];
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    files: {},
+    fileOptions: { ...DEFAULT_DELIMITED_OPTIONS },
+    disabledValidators: [],
+    format: 'human',
+    listValidators: false,
+    help: false,
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = () => {
+      const next = argv[++i];
+      if (next === undefined || next.startsWith('--')) throw new UsageError(`${flag} needs a value`);
+      return next;
+    };
+    switch (flag) {
+      case '--clients':
+      case '--workers':
+      case '--tasks':
+        options.files[flag.slice(2) as Entity] = value();
+        break;
+      case '--workbook':
+        options.workbook = value();
+        break;
+      case '--rules':
+        options.rules = value();
+        break;
+      case '--delimiter': {
+        const delimiter = DELIMITERS[value()];
+        if (!delimiter) throw new UsageError(`Unknown delimiter '${argv[i]}'`);
+        options.fileOptions.delimiter = delimiter;
+        break;
+      }
+      case '--encoding': {
+        const encoding = value() as TextEncoding;
+        if (!ENCODINGS.includes(encoding)) throw new UsageError(`Unknown encoding '${encoding}'`);
+        options.fileOptions.encoding = encoding;
+        break;
+      }
+      case '--disable':
+        options.disabledValidators.push(...value().split(',').map(id => id.trim()).filter(Boolean));
+        break;
+      case '--format': {
+        const format = value();
+        if (format !== 'human' && format !== 'json') throw new UsageError(`Unknown format '${format}'`);
+        options.format = format;
+        break;
+      }
+      case '--out':
+        options.out = value();
+        break;
+      case '--list-validators':
+        options.listValidators = true;
+        break;
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+      default:
+        throw new UsageError(`Unknown option '${flag}'`);
+    }
+  }
+  return options;
+}
+
+function readFile(file: string): ArrayBuffer {
+  let buffer: Buffer;
+  try {
+    buffer = fs.readFileSync(file);
+  } catch (e) {
+    throw new UsageError(`Cannot read ${file}: ${(e as Error).message}`);
+  }
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+}
+
+function readData(options: CliOptions, warnings: string[]): Record<Entity, any[]> {
+  const data: Record<Entity, any[]> = { clients: [], workers: [], tasks: [] };
+  if (options.workbook) {
+    const sheets = readWorkbookSheets(readFile(options.workbook), path.basename(options.workbook));
+    const detections = detectSheets(sheets, defaultSchemas);
+    sheets.forEach(sheet => {
+      const entity = detections[sheet.name].entity;
+      if (entity) data[entity] = sheet.rows;
+      else warnings.push(`Sheet '${sheet.name}' doesn't look like clients, workers or tasks and was skipped`);
+    });
+  }
+  ENTITIES.forEach(entity => {
+    const file = options.files[entity];
+    if (!file) return;
+    try {
+      const parsed = readEntityRows(path.basename(file), readFile(file), entity, options.fileOptions);
+      data[entity] = parsed.rows;
+      parsed.warnings.forEach(warning => warnings.push(`${path.basename(file)}: ${warning}`));
+    } catch (e) {
+      if (e instanceof UsageError) throw e;
+      throw new UsageError(`Cannot parse ${file}: ${(e as Error).message}`);
+    }
+  });
+  return data;
+}
+
+// Rule entries that don't parse can't be checked at all, so they fail the run like errors do.
+function readRules(file: string, data: Record<Entity, any[]>) {
+  let imported;
+  try {
+    imported = parseRulesFile(fs.readFileSync(file, 'utf8'), data);
+  } catch (e) {
+    throw new UsageError(`Cannot read rules from ${file}: ${(e as Error).message}`);
+  }
+  const rules: Rule[] = imported.entries.filter(entry => entry.rule).map(entry => entry.rule!);
+  const invalid = imported.entries
+    .filter(entry => !entry.rule)
+    .map(entry => `Rule #${entry.index + 1} in ${path.basename(file)} is invalid: ${entry.messages.join('; ')}`);
+  return { rules, invalid, calendar: imported.phaseCalendar };
+}
+
+function writeCleaned(dir: string, data: Record<Entity, any[]>, calendar: PhaseCalendar): string[] {
+  fs.mkdirSync(dir, { recursive: true });
+  return ENTITIES.filter(entity => data[entity].length > 0).map(entity => {
+    const rows = canonicalRows(entity, data[entity], defaultSchemas[entity], calendar);
+    const file = path.join(dir, `${entity}_cleaned.csv`);
+    fs.writeFileSync(file, serializeRows(rows, exportColumns(defaultSchemas[entity], rows), 'csv') as string);
+    return file;
+  });
+}
+
+function printHuman(validation: ValidationResult, invalidRules: string[], warnings: string[], counts: Record<Entity, number>) {
+  const lines: string[] = [];
+  lines.push(`Checked ${ENTITIES.map(entity => `${counts[entity]} ${entity}`).join(', ')}`);
+  warnings.forEach(warning => lines.push(`warning: ${warning}`));
+  invalidRules.forEach(message => lines.push(`error: ${message}`));
+  SEVERITIES.forEach(severity => {
+    validation.issues
+      .filter(issue => issue.severity === severity)
+      .forEach(issue => lines.push(`${severity}: ${issue.message} [${issue.validator}/${issue.code}]`));
+  });
+  if (validation.suggestions.length > 0) {
+    lines.push('', 'Suggestions:');
+    validation.suggestions.forEach(suggestion => lines.push(`  - ${suggestion}`));
+  }
+  const total = (severity: string) => validation.issues.filter(issue => issue.severity === severity).length;
+  lines.push('', SEVERITIES.map(severity => `${total(severity) + (severity === 'error' ? invalidRules.length : 0)} ${severity}(s)`).join(', '));
+  console.log(lines.join('\n'));
+}
+
+function main(argv: string[]): number {
+  const options = parseArgs(argv);
+  if (options.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (options.listValidators) {
+    listValidators().forEach(v => console.log(`${v.id.padEnd(22)} ${v.severity.padEnd(8)} ${v.description}`));
+    return 0;
+  }
+  if (!options.workbook && ENTITIES.every(entity => !options.files[entity])) {
+    throw new UsageError('Give at least one of --clients, --workers, --tasks or --workbook');
+  }
+
+  const warnings: string[] = [];
+  const data = readData(options, warnings);
+  const { rules, invalid, calendar } = options.rules
+    ? readRules(options.rules, data)
+    : { rules: [] as Rule[], invalid: [] as string[], calendar: null };
+  const phaseCalendar = calendar || DEFAULT_PHASE_CALENDAR;
+
+  const validation = validateAllData({ ...data, rules, calendar: phaseCalendar, disabledValidators: options.disabledValidators });
+  const ok = invalid.length === 0 && !validation.issues.some(issue => issue.severity === 'error');
+  const written = options.out ? writeCleaned(options.out, data, phaseCalendar) : [];
+
+  if (options.format === 'json') {
+    console.log(JSON.stringify({ ok, validation, invalidRules: invalid, warnings, written }, null, 2));
+  } else {
+    printHuman(validation, invalid, warnings, { clients: data.clients.length, workers: data.workers.length, tasks: data.tasks.length });
+    written.forEach(file => console.log(`Wrote ${file}`));
+  }
+  return ok ? 0 : 1;
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (e) {
+  if (!(e instanceof UsageError)) throw e;
+  console.error(`${e.message}\n\n${USAGE}`);
+  process.exitCode = 2;
+}
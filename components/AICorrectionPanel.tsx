@@ -1,27 +1,33 @@
 import React, { useState } from 'react';
 import { Card, CardContent, Typography, Button, List, ListItem, ListItemText, Chip, Box, Alert } from '@mui/material';
 import { GridRowsProp } from '@mui/x-data-grid';
+import CorrectionReviewDialog from './CorrectionReviewDialog';
+import {
+  CorrectionSuggestion,
+  CorrectionPreview,
+  previewCorrections,
+  applyCorrections,
+  suggestionRowNumber,
+} from '../utils/correctionUtils';
+import { SchemaRegistry, customFieldsOf } from '../utils/entitySchema';
+import type { PhaseCalendar } from '../utils/phaseCalendar';
+import type { Rule } from './RuleBuilder';
 
 interface AICorrectionPanelProps {
   validation: any;
   clients: GridRowsProp;
   workers: GridRowsProp;
   tasks: GridRowsProp;
-  onClientsChange: (clients: GridRowsProp) => void;
-  onWorkersChange: (workers: GridRowsProp) => void;
-  onTasksChange: (tasks: GridRowsProp) => void;
-}
-
-interface AISuggestion {
-  entity: 'clients' | 'workers' | 'tasks';
-  row: number;
-  column: string;
-  issue: string;
-  suggestedFix: string;
+  schemas?: SchemaRegistry;
+  calendar?: PhaseCalendar;
+  rules?: Rule[];
+  disabledValidators?: string[];
+  // Receives every entity touched by one action so it can be undone as a single step.
+  onDataChange: (update: Partial<Record<CorrectionSuggestion['entity'], GridRowsProp>>, label: string) => void;
 }
 
 interface AICorrectionResponse {
-  suggestions: AISuggestion[];
+  suggestions: CorrectionSuggestion[];
   generalAdvice: string;
 }
 
@@ -30,13 +36,16 @@ const AICorrectionPanel: React.FC<AICorrectionPanelProps> = ({
   clients,
   workers,
   tasks,
-  onClientsChange,
-  onWorkersChange,
-  onTasksChange,
+  schemas,
+  calendar,
+  rules,
+  disabledValidators,
+  onDataChange,
 }) => {
   const [corrections, setCorrections] = useState<AICorrectionResponse | null>(null);
   const [loading, setLoading] = useState(false);
   const [appliedCorrections, setAppliedCorrections] = useState<Set<string>>(new Set());
+  const [review, setReview] = useState<{ previews: CorrectionPreview[]; label: string } | null>(null);
 
   const getAICorrections = async () => {
     setLoading(true);
@@ -49,6 +58,7 @@ const AICorrectionPanel: React.FC<AICorrectionPanelProps> = ({
           clients: [...clients],
           workers: [...workers],
           tasks: [...tasks],
+          customFields: schemas ? customFieldsOf(schemas) : [],
         }),
       });
 
@@ -62,62 +72,32 @@ const AICorrectionPanel: React.FC<AICorrectionPanelProps> = ({
     setLoading(false);
   };
 
-  const applyCorrection = (suggestion: AISuggestion) => {
-    const correctionKey = `${suggestion.entity}-${suggestion.row}-${suggestion.column}`;
-    
-    if (appliedCorrections.has(correctionKey)) {
-      return; // Already applied
-    }
+  const correctionKeyOf = (suggestion: CorrectionSuggestion) => `${suggestion.entity}-${suggestion.rowKey}-${suggestion.column}`;
 
-    // Get the data array based on entity
-    let dataArray: GridRowsProp;
-    let updateFunction: (data: GridRowsProp) => void;
-    
-    switch (suggestion.entity) {
-      case 'clients':
-        dataArray = clients;
-        updateFunction = onClientsChange;
-        break;
-      case 'workers':
-        dataArray = workers;
-        updateFunction = onWorkersChange;
-        break;
-      case 'tasks':
-        dataArray = tasks;
-        updateFunction = onTasksChange;
-        break;
-      default:
-        return;
-    }
+  const reviewSuggestions = (suggestions: CorrectionSuggestion[], label: string) => {
+    const pending = suggestions.filter(suggestion => !appliedCorrections.has(correctionKeyOf(suggestion)));
+    if (pending.length === 0) return;
+    setReview({
+      previews: previewCorrections({ clients: [...clients], workers: [...workers], tasks: [...tasks] }, pending, schemas, { rules, calendar, disabledValidators }),
+      label,
+    });
+  };
 
-    // Find the row by index (row is 1-based, so subtract 1)
-    const rowIndex = suggestion.row - 1;
-    if (rowIndex >= 0 && rowIndex < dataArray.length) {
-      const updatedData = [...dataArray];
-      const row = updatedData[rowIndex];
-      
-      // Apply the suggested fix - this is a simplified approach
-      // In a real implementation, you might want to parse the suggestedFix
-      // and apply it more intelligently
-      if (row && suggestion.column) {
-        // For now, we'll just mark it as fixed by adding a note
-        updatedData[rowIndex] = {
-          ...row,
-          [`${suggestion.column}_fixed`]: true,
-          [`${suggestion.column}_suggestion`]: suggestion.suggestedFix
-        };
-        updateFunction(updatedData);
-        setAppliedCorrections(prev => new Set([...prev, correctionKey]));
-      }
-    }
+  const confirmReview = (suggestions: CorrectionSuggestion[]) => {
+    if (!review) return;
+    const update = applyCorrections({ clients: [...clients], workers: [...workers], tasks: [...tasks] }, suggestions);
+    onDataChange(update, suggestions.length > 1 ? `${review.label} (${suggestions.length})` : review.label);
+    setAppliedCorrections(prev => new Set([...prev, ...suggestions.map(correctionKeyOf)]));
+    setReview(null);
+  };
+
+  const applyCorrection = (suggestion: CorrectionSuggestion) => {
+    reviewSuggestions([suggestion], `AI fix: ${suggestion.entity} row ${suggestionRowNumber({ clients, workers, tasks }, suggestion)}, ${suggestion.column}`);
   };
 
   const applyAllCorrections = () => {
     if (!corrections?.suggestions) return;
-    
-    corrections.suggestions.forEach(suggestion => {
-      applyCorrection(suggestion);
-    });
+    reviewSuggestions(corrections.suggestions, 'Apply all AI fixes');
   };
 
   const hasValidationErrors = validation?.summary?.length > 0;
@@ -182,8 +162,7 @@ const AICorrectionPanel: React.FC<AICorrectionPanelProps> = ({
 
             <List dense>
               {corrections.suggestions.map((suggestion, index) => {
-                const correctionKey = `${suggestion.entity}-${suggestion.row}-${suggestion.column}`;
-                const isApplied = appliedCorrections.has(correctionKey);
+                const isApplied = appliedCorrections.has(correctionKeyOf(suggestion));
                 
                 return (
                   <ListItem 
@@ -199,7 +178,7 @@ const AICorrectionPanel: React.FC<AICorrectionPanelProps> = ({
                       primary={
                         <Box>
                           <Typography variant="body2" component="span">
-                            <strong>{suggestion.entity}</strong> - Row {suggestion.row}, {suggestion.column}: 
+                            <strong>{suggestion.entity}</strong> - Row {suggestionRowNumber({ clients, workers, tasks }, suggestion)}, {suggestion.column}: 
                           </Typography>
                           <Chip 
                             label={suggestion.entity} 
@@ -224,6 +203,11 @@ const AICorrectionPanel: React.FC<AICorrectionPanelProps> = ({
                           <Typography variant="body2" color="primary">
                             <strong>Suggested Fix:</strong> {suggestion.suggestedFix}
                           </Typography>
+                          {suggestion.proposedValue !== undefined && (
+                            <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
+                              <strong>Proposed Value:</strong> {JSON.stringify(suggestion.proposedValue)}
+                            </Typography>
+                          )}
                         </Box>
                       }
                     />
@@ -249,6 +233,12 @@ const AICorrectionPanel: React.FC<AICorrectionPanelProps> = ({
             )}
           </Box>
         )}
+
+        <CorrectionReviewDialog
+          previews={review?.previews ?? null}
+          onCancel={() => setReview(null)}
+          onConfirm={confirmReview}
+        />
       </CardContent>
     </Card>
   );
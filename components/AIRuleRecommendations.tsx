@@ -1,12 +1,14 @@
 import React, { useState } from 'react';
 import { Card, CardContent, Typography, Button, List, ListItem, ListItemText, Chip, Box, Alert, Accordion, AccordionSummary, AccordionDetails } from '@mui/material';
 import { GridRowsProp } from '@mui/x-data-grid';
+import { SchemaRegistry, customFieldsOf } from '../utils/entitySchema';
 
 interface AIRuleRecommendationsProps {
   clients: GridRowsProp;
   workers: GridRowsProp;
   tasks: GridRowsProp;
   existingRules: any[];
+  schemas?: SchemaRegistry;
   onAddRule: (rule: any) => void;
 }
 
@@ -28,6 +30,7 @@ const AIRuleRecommendations: React.FC<AIRuleRecommendationsProps> = ({
   workers,
   tasks,
   existingRules,
+  schemas,
   onAddRule,
 }) => {
   const [recommendations, setRecommendations] = useState<AIRuleResponse | null>(null);
@@ -45,6 +48,7 @@ const AIRuleRecommendations: React.FC<AIRuleRecommendationsProps> = ({
           workers: [...workers],
           tasks: [...tasks],
           existingRules,
+          customFields: schemas ? customFieldsOf(schemas) : [],
         }),
       });
 
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Card, CardContent, Typography, Box, Chip, Accordion, AccordionSummary, AccordionDetails, List, ListItem, ListItemText } from '@mui/material';
+import { Rule } from './RuleBuilder';
+import { UnmetRequestDiagnostic, BlockerCode } from '../utils/allocationDiagnostics';
+import { describeRule } from '../utils/ruleUtils';
+
+interface AllocationDiagnosticsProps {
+  diagnostics: UnmetRequestDiagnostic[];
+  rules: Rule[];
+}
+
+const BLOCKER_LABELS: Record<BlockerCode, string> = {
+  unknownTask: 'Unknown task',
+  noSkillMatch: 'No skill match',
+  phaseWindow: 'Phase window',
+  coRun: 'Co-run',
+  availability: 'Availability',
+  slotRestriction: 'Slot restriction',
+  capacity: 'Worker capacity',
+  loadLimit: 'Load limit',
+  maxConcurrent: 'Max concurrent',
+  phaseSaturation: 'Phase saturation',
+  unexplained: 'Other',
+};
+
+const AllocationDiagnostics: React.FC<AllocationDiagnosticsProps> = ({ diagnostics, rules }) => {
+  if (diagnostics.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card sx={{ mb: 3, background: '#fff5f5', border: '1px solid #ffccc7' }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          🔍 Why Tasks Were Not Assigned ({diagnostics.length})
+        </Typography>
+        <Typography variant="body2" sx={{ mb: 2 }}>
+          Each unmet request is traced back to the rows and rules that blocked it.
+        </Typography>
+
+        {diagnostics.map((diagnostic, index) => (
+          <Accordion key={index} disableGutters>
+            <AccordionSummary>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                <Typography variant="subtitle2">
+                  {diagnostic.taskId} for {diagnostic.clientId} ▼
+                </Typography>
+                {diagnostic.blockers.map((blocker, i) => (
+                  <Chip key={i} label={BLOCKER_LABELS[blocker.code]} size="small" color="error" variant="outlined" />
+                ))}
+              </Box>
+            </AccordionSummary>
+            <AccordionDetails>
+              <List dense>
+                {diagnostic.blockers.map((blocker, i) => (
+                  <ListItem key={i} sx={{ border: '1px solid #e0e0e0', borderRadius: 1, mb: 1, background: 'white' }}>
+                    <ListItemText
+                      primary={blocker.message}
+                      secondary={
+                        <Box component="span">
+                          {blocker.rows.map((ref, j) => (
+                            <Typography key={j} variant="caption" component="span" sx={{ display: 'block' }}>
+                              {ref.entity}: Row {ref.rowNumber} ({ref.id}){ref.field ? ` · ${ref.field}` : ''}
+                            </Typography>
+                          ))}
+                          {blocker.ruleIndices.map(ruleIndex => (
+                            <Typography key={`rule-${ruleIndex}`} variant="caption" component="span" sx={{ display: 'block' }}>
+                              Rule {ruleIndex + 1}: {rules[ruleIndex] ? describeRule(rules[ruleIndex]) : 'removed'}
+                            </Typography>
+                          ))}
+                        </Box>
+                      }
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            </AccordionDetails>
+          </Accordion>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AllocationDiagnostics;
@@ -0,0 +1,111 @@
+import React from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Button,
+  Box,
+  Chip,
+  Alert,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  List,
+  ListItem,
+  ListItemText
+} from '@mui/material';
+import { AllocationResult } from '../utils/allocationSolver';
+
+interface AllocationResultsProps {
+  result: AllocationResult | null;
+  onRun: () => void;
+  disabled?: boolean;
+}
+
+const AllocationResults: React.FC<AllocationResultsProps> = ({ result, onRun, disabled }) => {
+  return (
+    <Card sx={{ mb: 3, background: '#f6fff6', border: '1px solid #b7e1b7' }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          🗓️ Allocation Plan
+        </Typography>
+        <Typography variant="body2" sx={{ mb: 2 }}>
+          Assign requested tasks to workers and phases using the current data, rules and weights.
+        </Typography>
+
+        <Button
+          variant="contained"
+          color="success"
+          onClick={onRun}
+          disabled={disabled}
+          sx={{ mb: 2 }}
+        >
+          {result ? 'Re-run Allocation' : 'Generate Allocation Plan'}
+        </Button>
+
+        {result && (
+          <Box>
+            <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+              <Chip label={`Requested: ${result.stats.requested}`} size="small" />
+              <Chip label={`Assigned: ${result.stats.assigned}`} color="success" size="small" />
+              <Chip
+                label={`Unassigned: ${result.unassigned.length}`}
+                color={result.unassigned.length > 0 ? 'warning' : 'default'}
+                size="small"
+              />
+              <Chip label={`Fulfillment: ${Math.round(result.stats.fulfillmentRate * 100)}%`} color="primary" size="small" />
+            </Box>
+
+            {result.warnings.map((warning, i) => (
+              <Alert key={i} severity="warning" sx={{ mb: 1 }}>{warning}</Alert>
+            ))}
+
+            {result.assignments.length > 0 && (
+              <Table size="small" sx={{ mb: 2 }}>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Phases</TableCell>
+                    <TableCell>Task</TableCell>
+                    <TableCell>Worker</TableCell>
+                    <TableCell>Client</TableCell>
+                    <TableCell align="right">Score</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {result.assignments.map((a, i) => (
+                    <TableRow key={i}>
+                      <TableCell>{a.phases.length > 1 ? `${a.phase}-${a.phases[a.phases.length - 1]}` : a.phase}</TableCell>
+                      <TableCell>{a.taskId}</TableCell>
+                      <TableCell>{a.workerId}</TableCell>
+                      <TableCell>{a.clientId}</TableCell>
+                      <TableCell align="right">{a.score}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {result.unassigned.length > 0 && (
+              <Box>
+                <Typography variant="subtitle2" color="error" gutterBottom>
+                  Unassigned Tasks ({result.unassigned.length}):
+                </Typography>
+                <List dense>
+                  {result.unassigned.map((u, i) => (
+                    <ListItem key={i} sx={{ border: '1px solid #e0e0e0', borderRadius: 1, mb: 1, background: 'white' }}>
+                      <ListItemText primary={`${u.taskId} for ${u.clientId}`} secondary={u.reason} />
+                    </ListItem>
+                  ))}
+                </List>
+              </Box>
+            )}
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AllocationResults;
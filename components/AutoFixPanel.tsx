@@ -0,0 +1,109 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, Typography, Button, Box, Chip } from '@mui/material';
+import { GridRowsProp } from '@mui/x-data-grid';
+import CorrectionReviewDialog from './CorrectionReviewDialog';
+import { proposeAutoFixes, AutoFixCategory, AUTO_FIX_LABELS } from '../utils/autoFixer';
+import { CorrectionPreview, CorrectionSuggestion, previewCorrections, applyCorrections } from '../utils/correctionUtils';
+import { SchemaRegistry } from '../utils/entitySchema';
+import type { PhaseCalendar } from '../utils/phaseCalendar';
+import type { Rule } from './RuleBuilder';
+
+interface AutoFixPanelProps {
+  validation: any;
+  clients: GridRowsProp;
+  workers: GridRowsProp;
+  tasks: GridRowsProp;
+  schemas?: SchemaRegistry;
+  calendar?: PhaseCalendar;
+  rules?: Rule[];
+  disabledValidators?: string[];
+  onDataChange: (update: Partial<Record<CorrectionSuggestion['entity'], GridRowsProp>>, label: string) => void;
+}
+
+const AutoFixPanel: React.FC<AutoFixPanelProps> = ({
+  validation,
+  clients,
+  workers,
+  tasks,
+  schemas,
+  calendar,
+  rules,
+  disabledValidators,
+  onDataChange,
+}) => {
+  const [excluded, setExcluded] = useState<Set<AutoFixCategory>>(new Set());
+  const [previews, setPreviews] = useState<CorrectionPreview[] | null>(null);
+
+  const fixes = useMemo(
+    () => proposeAutoFixes({ clients: [...clients], workers: [...workers], tasks: [...tasks] }, schemas, calendar),
+    [clients, workers, tasks, schemas, calendar]
+  );
+
+  const counts = fixes.reduce((acc, fix) => {
+    acc[fix.category] = (acc[fix.category] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<AutoFixCategory, number>>);
+
+  const toggleCategory = (category: AutoFixCategory) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(category)) next.delete(category);
+      else next.add(category);
+      return next;
+    });
+  };
+
+  const handlePreview = () => {
+    const selected = fixes.filter(fix => !excluded.has(fix.category));
+    setPreviews(previewCorrections({ clients: [...clients], workers: [...workers], tasks: [...tasks] }, selected, schemas, { rules, calendar, disabledValidators }));
+  };
+
+  const handleConfirm = (suggestions: CorrectionSuggestion[]) => {
+    const update = applyCorrections({ clients: [...clients], workers: [...workers], tasks: [...tasks] }, suggestions);
+    onDataChange(update, `Auto-fix (${suggestions.length})`);
+    setPreviews(null);
+  };
+
+  if (!validation?.summary?.length || fixes.length === 0) {
+    return null;
+  }
+
+  const selectedCount = fixes.filter(fix => !excluded.has(fix.category)).length;
+
+  return (
+    <Card sx={{ mb: 3, background: '#f8f9fa', border: '1px solid #dee2e6' }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          🧹 Local Auto-Fix
+        </Typography>
+        <Typography variant="body2" sx={{ mb: 2 }}>
+          {fixes.length} mechanical fix{fixes.length === 1 ? '' : 'es'} can be made without AI. Pick the categories to include, then review each change.
+        </Typography>
+
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+          {(Object.keys(counts) as AutoFixCategory[]).map(category => (
+            <Chip
+              key={category}
+              label={`${AUTO_FIX_LABELS[category]} (${counts[category]})`}
+              color={excluded.has(category) ? 'default' : 'primary'}
+              variant={excluded.has(category) ? 'outlined' : 'filled'}
+              onClick={() => toggleCategory(category)}
+            />
+          ))}
+        </Box>
+
+        <Button variant="contained" onClick={handlePreview} disabled={selectedCount === 0}>
+          Preview {selectedCount} Fix{selectedCount === 1 ? '' : 'es'}
+        </Button>
+
+        <CorrectionReviewDialog
+          previews={previews}
+          onCancel={() => setPreviews(null)}
+          onConfirm={handleConfirm}
+        />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AutoFixPanel;
@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  Button,
+  Checkbox,
+  Chip,
+  FormControlLabel,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import {
+  ColumnMapping,
+  MatchConfidence,
+  PendingUpload,
+  IGNORE_COLUMN,
+  ambiguousHeaders,
+  duplicateTargets,
+  missingFields,
+} from '../utils/columnMapping';
+import { SchemaRegistry, customFieldsOf } from '../utils/entitySchema';
+
+interface ColumnMappingDialogProps {
+  upload: PendingUpload | null;
+  schemas: SchemaRegistry;
+  onCancel: () => void;
+  onConfirm: (mapping: ColumnMapping, remember: boolean) => void;
+}
+
+const CONFIDENCE_COLORS: Record<MatchConfidence, 'success' | 'info' | 'warning' | 'default' | 'secondary'> = {
+  exact: 'success',
+  high: 'info',
+  low: 'warning',
+  none: 'default',
+  saved: 'info',
+  ai: 'secondary',
+};
+
+// MUI selects can't show an empty-string value, so "ignore" gets its own sentinel in the UI.
+const IGNORE_OPTION = '__ignore__';
+
+const ColumnMappingDialog: React.FC<ColumnMappingDialogProps> = ({ upload, schemas, onCancel, onConfirm }) => {
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [confidence, setConfidence] = useState<Record<string, MatchConfidence>>({});
+  const [remember, setRemember] = useState(true);
+  const [aiLoading, setAiLoading] = useState(false);
+  const [aiError, setAiError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!upload) return;
+    setMapping({ ...upload.suggestion.mapping });
+    setConfidence({ ...upload.suggestion.confidence });
+    setRemember(true);
+    setAiError(null);
+  }, [upload]);
+
+  if (!upload) return null;
+
+  const schema = schemas[upload.entity];
+  const headers = upload.suggestion.headers;
+  const missing = missingFields(mapping, schema);
+  const duplicates = duplicateTargets(mapping);
+  const ambiguous = ambiguousHeaders({ headers, mapping, confidence }, schema);
+
+  const samplesOf = (header: string) =>
+    upload.rows
+      .map(row => row[header])
+      .filter(value => value !== undefined && value !== null && value !== '')
+      .slice(0, 3)
+      .map(String);
+
+  const setTarget = (header: string, value: string) => {
+    setMapping(prev => ({ ...prev, [header]: value === IGNORE_OPTION ? IGNORE_COLUMN : value }));
+  };
+
+  const handleSuggestWithAI = async () => {
+    setAiLoading(true);
+    setAiError(null);
+    try {
+      const res = await fetch('/api/column-mapping', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          entity: upload.entity,
+          headers: ambiguous,
+          samples: Object.fromEntries(ambiguous.map(header => [header, samplesOf(header)])),
+          customFields: customFieldsOf(schemas),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'AI mapping failed');
+      const suggested: ColumnMapping = data.mapping || {};
+      const answered = Object.keys(suggested);
+      if (answered.length === 0) {
+        setAiError('The AI found no confident matches for these headers.');
+      }
+      setMapping(prev => ({ ...prev, ...suggested }));
+      setConfidence(prev => ({ ...prev, ...Object.fromEntries(answered.map(header => [header, 'ai' as MatchConfidence])) }));
+    } catch (e) {
+      setAiError((e as Error).message);
+    }
+    setAiLoading(false);
+  };
+
+  return (
+    <Dialog open onClose={onCancel} maxWidth="md" fullWidth>
+      <DialogTitle>
+        Map Columns
+        <Typography variant="body2" color="text.secondary">
+          {upload.fileName} → {upload.entity} ({upload.rows.length} rows)
+        </Typography>
+      </DialogTitle>
+      <DialogContent>
+        {missing.length > 0 && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            No column mapped to: {missing.join(', ')}. These will be reported as missing required columns.
+          </Alert>
+        )}
+        {duplicates.length > 0 && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            Mapped more than once: {duplicates.join(', ')}
+          </Alert>
+        )}
+        {aiError && <Alert severity="info" sx={{ mb: 2 }}>{aiError}</Alert>}
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Uploaded header</TableCell>
+              <TableCell>Sample values</TableCell>
+              <TableCell>Maps to</TableCell>
+              <TableCell>Match</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {headers.map(header => (
+              <TableRow key={header}>
+                <TableCell sx={{ fontFamily: 'monospace' }}>{header}</TableCell>
+                <TableCell>
+                  <Typography variant="caption" color="text.secondary">
+                    {samplesOf(header).join(' · ') || '(empty)'}
+                  </Typography>
+                </TableCell>
+                <TableCell>
+                  <Select
+                    size="small"
+                    fullWidth
+                    value={mapping[header] === IGNORE_COLUMN ? IGNORE_OPTION : mapping[header] ?? header}
+                    onChange={e => setTarget(header, e.target.value as string)}
+                    error={duplicates.includes(mapping[header])}
+                  >
+                    {schema.fields.map(field => (
+                      <MenuItem key={field.name} value={field.name}>
+                        {field.name}{field.required ? ' *' : ''}
+                      </MenuItem>
+                    ))}
+                    {!schema.fields.some(f => f.name === header) && (
+                      <MenuItem value={header}>Keep as extra column '{header}'</MenuItem>
+                    )}
+                    <MenuItem value={IGNORE_OPTION}>Ignore this column</MenuItem>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Chip label={confidence[header] || 'none'} size="small" color={CONFIDENCE_COLORS[confidence[header] || 'none']} variant="outlined" />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <FormControlLabel
+          sx={{ mt: 1 }}
+          control={<Checkbox checked={remember} onChange={e => setRemember(e.target.checked)} />}
+          label="Remember this mapping for files with the same headers"
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleSuggestWithAI} disabled={aiLoading || ambiguous.length === 0} sx={{ mr: 'auto' }}>
+          {aiLoading ? 'Asking AI...' : `Suggest ${ambiguous.length} with AI`}
+        </Button>
+        <Button onClick={onCancel}>Cancel</Button>
+        <Button variant="contained" onClick={() => onConfirm(mapping, remember)} disabled={duplicates.length > 0}>
+          Import {upload.rows.length} Rows
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ColumnMappingDialog;
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Checkbox,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import { CorrectionPreview, CorrectionStatus, CorrectionSuggestion } from '../utils/correctionUtils';
+
+interface CorrectionReviewDialogProps {
+  previews: CorrectionPreview[] | null;
+  onCancel: () => void;
+  onConfirm: (suggestions: CorrectionSuggestion[]) => void;
+}
+
+const STATUS_COLORS: Record<CorrectionStatus, 'success' | 'warning' | 'default'> = {
+  resolved: 'success',
+  unresolved: 'warning',
+  skipped: 'default',
+};
+
+const formatValue = (value: any) => (value === undefined || value === null || value === '' ? '(empty)' : String(value));
+
+const CorrectionReviewDialog: React.FC<CorrectionReviewDialogProps> = ({ previews, onCancel, onConfirm }) => {
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    if (!previews) return;
+    // Fixes that don't clear the validation error are opt-in.
+    setSelected(new Set(previews.map((p, i) => (p.status === 'resolved' ? i : -1)).filter(i => i >= 0)));
+  }, [previews]);
+
+  if (!previews) return null;
+
+  const toggle = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const handleConfirm = () => {
+    onConfirm(previews.filter((_, i) => selected.has(i)).map(p => p.suggestion));
+  };
+
+  return (
+    <Dialog open maxWidth="lg" fullWidth onClose={onCancel}>
+      <DialogTitle>Review Corrections</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Each change was re-validated against the current data before being offered here.
+        </Typography>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell padding="checkbox" />
+              <TableCell>Cell</TableCell>
+              <TableCell>Before</TableCell>
+              <TableCell>After</TableCell>
+              <TableCell>Result</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {previews.map((preview, i) => (
+              <TableRow key={i}>
+                <TableCell padding="checkbox">
+                  <Checkbox
+                    checked={selected.has(i)}
+                    disabled={preview.status === 'skipped'}
+                    onChange={() => toggle(i)}
+                  />
+                </TableCell>
+                <TableCell>
+                  {preview.suggestion.entity} row {preview.rowNumber || '?'}, {preview.suggestion.column}
+                  <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                    {preview.suggestion.issue}
+                  </Typography>
+                </TableCell>
+                <TableCell sx={{ color: 'error.main', fontFamily: 'monospace' }}>{formatValue(preview.before)}</TableCell>
+                <TableCell sx={{ color: 'success.main', fontFamily: 'monospace' }}>
+                  {preview.status === 'skipped' ? '—' : formatValue(preview.after)}
+                </TableCell>
+                <TableCell>
+                  <Chip label={preview.status} size="small" color={STATUS_COLORS[preview.status]} variant="outlined" />
+                  {preview.message && (
+                    <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                      {preview.message}
+                    </Typography>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel}>Cancel</Button>
+        <Button variant="contained" onClick={handleConfirm} disabled={selected.size === 0}>
+          Apply {selected.size} Fix{selected.size === 1 ? '' : 'es'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CorrectionReviewDialog;
@@ -1,5 +1,7 @@
 import React from 'react';
 import { DataGrid, GridColDef, GridRowsProp, GridCellParams } from '@mui/x-data-grid';
+import { ROW_KEY_FIELD } from '../utils/rowKeys';
+import { SOURCE_FIELD, sourceOf, describeSource } from '../utils/rowSource';
 
 interface DataGridEditableProps {
   columns: GridColDef[];
@@ -10,7 +12,7 @@ interface DataGridEditableProps {
 
 const DataGridEditable: React.FC<DataGridEditableProps> = ({ columns, rows, onRowsChange, errors }) => {
   const getCellClassName = (params: GridCellParams) => {
-    const rowErrors = errors?.[params.row.id];
+    const rowErrors = errors?.[params.row[ROW_KEY_FIELD]];
     if (rowErrors && rowErrors[params.field]) {
       return 'error-cell';
     }
@@ -18,7 +20,7 @@ const DataGridEditable: React.FC<DataGridEditableProps> = ({ columns, rows, onRo
   };
 
   const getCellTooltip = (params: GridCellParams) => {
-    const rowErrors = errors?.[params.row.id];
+    const rowErrors = errors?.[params.row[ROW_KEY_FIELD]];
     if (rowErrors && rowErrors[params.field]) {
       return rowErrors[params.field];
     }
@@ -48,6 +50,26 @@ const DataGridEditable: React.FC<DataGridEditableProps> = ({ columns, rows, onRo
     )
   }));
 
+  // Uploaded rows show the file line they came from, so "Row 5 (clients.csv line 7)" in the
+  // validation summary can still be found after sorting or filtering. Sorts by line number.
+  const sourceColumn: GridColDef = {
+    field: SOURCE_FIELD,
+    headerName: 'Source',
+    width: 180,
+    editable: false,
+    valueGetter: params => sourceOf(params.row)?.line,
+    renderCell: (params: GridCellParams) => {
+      const source = sourceOf(params.row);
+      if (!source) return null;
+      return (
+        <span title={source.issues?.join('\n') || ''} style={{ color: source.issues?.length ? '#d32f2f' : '#757575' }}>
+          {source.issues?.length ? '⚠ ' : ''}{describeSource(source)}
+        </span>
+      );
+    },
+  };
+  const showSource = rows.some(row => sourceOf(row));
+
   return (
     <div style={{ height: 400, width: '100%' }}>
       <style jsx>{`
@@ -83,10 +105,11 @@ const DataGridEditable: React.FC<DataGridEditableProps> = ({ columns, rows, onRo
       `}</style>
       <DataGrid
         rows={rows}
-        columns={enhancedColumns}
+        getRowId={row => row[ROW_KEY_FIELD]}
+        columns={showSource ? [...enhancedColumns, sourceColumn] : enhancedColumns}
         processRowUpdate={(updatedRow) => {
           const updatedRows = rows.map(row => 
-            row.id === updatedRow.id ? { ...row, ...updatedRow } : row
+            row[ROW_KEY_FIELD] === updatedRow[ROW_KEY_FIELD] ? { ...row, ...updatedRow } : row
           );
           onRowsChange(updatedRows);
           return updatedRow;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Box, FormControl, InputLabel, MenuItem, Select } from '@mui/material';
+import { CsvDelimiter, DelimitedOptions, TextEncoding, DELIMITER_LABELS, ENCODING_LABELS } from '../utils/fileFormats';
+
+interface FileFormatOptionsProps {
+  options: DelimitedOptions;
+  onChange: (options: DelimitedOptions) => void;
+}
+
+const FileFormatOptions: React.FC<FileFormatOptionsProps> = ({ options, onChange }) => (
+  <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+    <FormControl size="small" sx={{ minWidth: 180 }}>
+      <InputLabel>CSV delimiter</InputLabel>
+      <Select
+        label="CSV delimiter"
+        value={options.delimiter}
+        onChange={e => onChange({ ...options, delimiter: e.target.value as CsvDelimiter })}
+      >
+        {(Object.keys(DELIMITER_LABELS) as CsvDelimiter[]).map(d => (
+          <MenuItem key={d} value={d}>{DELIMITER_LABELS[d]}</MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+    <FormControl size="small" sx={{ minWidth: 260 }}>
+      <InputLabel>Text encoding</InputLabel>
+      <Select
+        label="Text encoding"
+        value={options.encoding}
+        onChange={e => onChange({ ...options, encoding: e.target.value as TextEncoding })}
+      >
+        {(Object.keys(ENCODING_LABELS) as TextEncoding[]).map(enc => (
+          <MenuItem key={enc} value={enc}>{ENCODING_LABELS[enc]}</MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  </Box>
+);
+
+export default FileFormatOptions;
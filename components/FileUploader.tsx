@@ -1,48 +1,42 @@
 import React from 'react';
-import Papa from 'papaparse';
-import * as XLSX from 'xlsx';
+import { readEntityRows, detectFormat, DelimitedOptions, DEFAULT_DELIMITED_OPTIONS, IMPORT_ACCEPT } from '../utils/fileFormats';
 
 interface FileUploaderProps {
   label: string;
-  onDataParsed: (data: any[], fileType: 'clients' | 'workers' | 'tasks') => void;
+  // `warnings` are parser problems not tied to one row; row-level ones travel on the rows.
+  onDataParsed: (data: any[], fileType: 'clients' | 'workers' | 'tasks', fileName: string, warnings: string[]) => void;
   fileType: 'clients' | 'workers' | 'tasks';
+  // Delimiter and encoding for CSV/TSV/JSON text files.
+  options?: DelimitedOptions;
 }
 
-const FileUploader: React.FC<FileUploaderProps> = ({ label, onDataParsed, fileType }) => {
+const FileUploader: React.FC<FileUploaderProps> = ({ label, onDataParsed, fileType, options = DEFAULT_DELIMITED_OPTIONS }) => {
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = '';
     if (!file) return;
-    const fileName = file.name.toLowerCase();
-    if (fileName.endsWith('.csv')) {
-      Papa.parse(file, {
-        header: true,
-        skipEmptyLines: true,
-        complete: (results) => {
-          onDataParsed(results.data, fileType);
-        },
-      });
-    } else if (fileName.endsWith('.xlsx')) {
-      const reader = new FileReader();
-      reader.onload = (evt) => {
-        const data = new Uint8Array(evt.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array' });
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, { defval: '' });
-        onDataParsed(jsonData, fileType);
-      };
-      reader.readAsArrayBuffer(file);
-    } else {
-      alert('Unsupported file type. Please upload a CSV or XLSX file.');
+    if (!detectFormat(file.name)) {
+      alert('Unsupported file type. Please upload a CSV, TSV, JSON, XLSX or ODS file.');
+      return;
     }
+    const reader = new FileReader();
+    reader.onload = (evt) => {
+      try {
+        const { rows, warnings } = readEntityRows(file.name, evt.target?.result as ArrayBuffer, fileType, options);
+        onDataParsed(rows, fileType, file.name, warnings);
+      } catch (err) {
+        alert((err as Error).message);
+      }
+    };
+    reader.readAsArrayBuffer(file);
   };
 
   return (
     <div style={{ marginBottom: 16 }}>
       <label style={{ fontWeight: 'bold' }}>{label}: </label>
-      <input type="file" accept=".csv,.xlsx" onChange={handleFileChange} />
+      <input type="file" accept={IMPORT_ACCEPT} onChange={handleFileChange} />
     </div>
   );
 };
 
-export default FileUploader; 
\ No newline at end of file
+export default FileUploader;
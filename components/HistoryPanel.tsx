@@ -0,0 +1,59 @@
+import React from 'react';
+import { Box, Button, Typography, List, ListItem, ListItemText, Chip } from '@mui/material';
+import { HistoryEntry } from '../utils/historyUtils';
+
+interface HistoryPanelProps {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ past, future, onUndo, onRedo }) => {
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+        <Typography variant="h6">
+          🕘 Change History
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button variant="outlined" size="small" onClick={onUndo} disabled={past.length === 0} title="Ctrl+Z">
+            Undo
+          </Button>
+          <Button variant="outlined" size="small" onClick={onRedo} disabled={future.length === 0} title="Ctrl+Shift+Z / Ctrl+Y">
+            Redo
+          </Button>
+        </Box>
+      </Box>
+
+      {past.length === 0 && future.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          Uploads, grid edits, AI fixes and rule changes will be listed here.
+        </Typography>
+      ) : (
+        <List dense sx={{ maxHeight: 240, overflow: 'auto' }}>
+          {[...future].reverse().map(entry => (
+            <ListItem key={entry.id} sx={{ opacity: 0.5 }}>
+              <ListItemText
+                primary={entry.label}
+                secondary={new Date(entry.timestamp).toLocaleTimeString()}
+              />
+              <Chip label="undone" size="small" variant="outlined" />
+            </ListItem>
+          ))}
+          {[...past].reverse().map((entry, i) => (
+            <ListItem key={entry.id}>
+              <ListItemText
+                primary={entry.label}
+                secondary={new Date(entry.timestamp).toLocaleTimeString()}
+              />
+              {i === 0 && <Chip label="latest" size="small" color="primary" variant="outlined" />}
+            </ListItem>
+          ))}
+        </List>
+      )}
+    </Box>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  Box,
+  Button,
+  Chip,
+  FormControlLabel,
+  Radio,
+  RadioGroup,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import type { Entity } from '../utils/validationUtils';
+import { SchemaRegistry } from '../utils/entitySchema';
+import { MergeMode, MergePlan, PendingMerge, MERGE_MODE_LABELS, planMerge } from '../utils/mergeUtils';
+
+interface MergePreviewDialogProps {
+  merge: PendingMerge | null;
+  current: Record<Entity, readonly any[]>;
+  schemas: SchemaRegistry;
+  onCancel: () => void;
+  onConfirm: (modes: Partial<Record<Entity, MergeMode>>) => void;
+}
+
+// Long diffs are cut off; the counts above the table stay exact.
+const MAX_PREVIEW_ROWS = 50;
+
+const formatValue = (value: any) => (value === undefined || value === null || value === '' ? '(empty)' : String(value));
+
+const MergePreviewDialog: React.FC<MergePreviewDialogProps> = ({ merge, current, schemas, onCancel, onConfirm }) => {
+  const [modes, setModes] = useState<Partial<Record<Entity, MergeMode>>>({});
+
+  useEffect(() => {
+    if (!merge) return;
+    const defaults: Partial<Record<Entity, MergeMode>> = {};
+    (Object.keys(merge.incoming) as Entity[]).forEach(entity => {
+      // Nothing to layer onto, or nothing to match on: a straight replace is the only sensible default.
+      const hasIds = merge.incoming[entity]!.some(row => row[schemas[entity].idField]);
+      defaults[entity] = current[entity].length > 0 && hasIds ? 'upsert' : 'replace';
+    });
+    setModes(defaults);
+  }, [merge]);
+
+  if (!merge) return null;
+
+  const entities = (Object.keys(merge.incoming) as Entity[]).filter(entity => modes[entity]);
+
+  const renderDiff = (entity: Entity, plan: MergePlan) => {
+    const idField = schemas[entity].idField;
+    const lines = [
+      ...plan.added.map(row => ({ kind: 'added', id: row[idField], detail: 'New row' })),
+      ...plan.changed.map(change => ({
+        kind: 'changed',
+        id: change.id,
+        detail: change.fields.map(f => `${f.field}: ${formatValue(f.before)} → ${formatValue(f.after)}`).join('; '),
+      })),
+      ...plan.removed.map(row => ({ kind: 'removed', id: row[idField], detail: 'Removed' })),
+    ];
+    if (lines.length === 0) {
+      return <Typography variant="body2" color="text.secondary">No differences from the current data.</Typography>;
+    }
+    return (
+      <>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Change</TableCell>
+              <TableCell>{idField}</TableCell>
+              <TableCell>Details</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {lines.slice(0, MAX_PREVIEW_ROWS).map((line, i) => (
+              <TableRow key={i}>
+                <TableCell>
+                  <Chip
+                    label={line.kind}
+                    size="small"
+                    variant="outlined"
+                    color={line.kind === 'added' ? 'success' : line.kind === 'removed' ? 'error' : 'warning'}
+                  />
+                </TableCell>
+                <TableCell sx={{ fontFamily: 'monospace' }}>{formatValue(line.id)}</TableCell>
+                <TableCell>
+                  <Typography variant="caption">{line.detail}</Typography>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {lines.length > MAX_PREVIEW_ROWS && (
+          <Typography variant="caption" color="text.secondary">
+            …and {lines.length - MAX_PREVIEW_ROWS} more
+          </Typography>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <Dialog open onClose={onCancel} maxWidth="md" fullWidth>
+      <DialogTitle>
+        Review Upload
+        <Typography variant="body2" color="text.secondary">{merge.label}</Typography>
+      </DialogTitle>
+      <DialogContent>
+        {entities.map(entity => {
+          const incoming = merge.incoming[entity]!;
+          const idField = schemas[entity].idField;
+          const plan = planMerge(current[entity], incoming, modes[entity]!, idField);
+          return (
+            <Box key={entity} sx={{ mb: 3 }}>
+              <Typography variant="subtitle1">
+                {entity}: {incoming.length} incoming, {current[entity].length} current
+              </Typography>
+              <RadioGroup
+                row
+                value={modes[entity]}
+                onChange={e => setModes(prev => ({ ...prev, [entity]: e.target.value as MergeMode }))}
+              >
+                {(Object.keys(MERGE_MODE_LABELS) as MergeMode[]).map(mode => (
+                  <FormControlLabel key={mode} value={mode} control={<Radio size="small" />} label={MERGE_MODE_LABELS[mode]} />
+                ))}
+              </RadioGroup>
+              {modes[entity] === 'upsert' && !incoming.some(row => row[idField]) && (
+                <Alert severity="warning" sx={{ mb: 1 }}>
+                  The upload has no {idField} values, so every row will be added.
+                </Alert>
+              )}
+              <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+                <Chip label={`${plan.added.length} added`} size="small" color="success" variant="outlined" />
+                <Chip label={`${plan.changed.length} changed`} size="small" color="warning" variant="outlined" />
+                <Chip label={`${plan.removed.length} removed`} size="small" color="error" variant="outlined" />
+                <Chip label={`${plan.unchanged} unchanged`} size="small" variant="outlined" />
+              </Box>
+              {renderDiff(entity, plan)}
+            </Box>
+          );
+        })}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel}>Cancel</Button>
+        <Button variant="contained" onClick={() => onConfirm(modes)} disabled={entities.length === 0}>
+          Apply Upload
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default MergePreviewDialog;
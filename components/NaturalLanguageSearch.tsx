@@ -1,35 +1,224 @@
-import React, { useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
+import { Box, Chip, Popover, Select, MenuItem, TextField, Button, Typography, ToggleButton, ToggleButtonGroup } from '@mui/material';
+import {
+  SearchFilter,
+  FieldClause,
+  FilterOperator,
+  FILTER_OPERATORS,
+  OPERATOR_LABELS,
+  JOIN_RELATIONS,
+  describeFieldClause,
+} from '../utils/searchFilter';
+import { parseQuery, getQueryCompletions, looksLikeQuery, QueryColumns } from '../utils/queryLanguage';
 
 interface NaturalLanguageSearchProps {
   onSearch: (query: string) => void;
   loading?: boolean;
+  // The filter the last query compiled to; its conditions are shown as editable chips.
+  filter?: SearchFilter | null;
+  onFilterChange?: (filter: SearchFilter) => void;
+  // Columns for the structured query syntax; queries in that syntax are filtered locally.
+  columns?: QueryColumns;
 }
 
-const NaturalLanguageSearch: React.FC<NaturalLanguageSearchProps> = ({ onSearch, loading }) => {
+// A chip is either a plain clause or one condition inside a join.
+interface ChipRef {
+  clause: number;
+  where?: number;
+}
+
+const ARRAY_OPERATORS: FilterOperator[] = ['in', 'listContains'];
+
+const NaturalLanguageSearch: React.FC<NaturalLanguageSearchProps> = ({ onSearch, loading, filter, onFilterChange, columns }) => {
   const [query, setQuery] = useState('');
+  const [mode, setMode] = useState<'ai' | 'query'>('ai');
+  const [cursor, setCursor] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [editing, setEditing] = useState<{ ref: ChipRef; anchor: HTMLElement; op: FilterOperator; value: string } | null>(null);
+
+  const structured = !!columns && (mode === 'query' || looksLikeQuery(query));
+  const parsed = useMemo(
+    () => (structured && query.trim() ? parseQuery(query, columns!) : null),
+    [structured, query, columns]
+  );
+  const completions = useMemo(
+    () => (mode === 'query' && columns ? getQueryCompletions(query, cursor, columns) : null),
+    [mode, query, cursor, columns]
+  );
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (query.trim()) {
-      onSearch(query.trim());
+    if (!query.trim()) return;
+    if (structured) {
+      if (parsed?.filter && onFilterChange) onFilterChange(parsed.filter);
+      return;
     }
+    onSearch(query.trim());
+  };
+
+  const trackCursor = () => setCursor(inputRef.current?.selectionStart ?? query.length);
+
+  const applyCompletion = (option: string) => {
+    if (!completions) return;
+    const insert = option.endsWith('.') || option === '(' ? option : `${option} `;
+    const next = query.slice(0, completions.from) + insert + query.slice(completions.to);
+    const position = completions.from + insert.length;
+    setQuery(next);
+    setCursor(position);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Tab' && completions && completions.options.length > 0) {
+      e.preventDefault();
+      applyCompletion(completions.options[0]);
+    }
+  };
+
+  const getCondition = (ref: ChipRef): FieldClause => {
+    const clause = filter!.clauses[ref.clause];
+    return clause.kind === 'join' ? clause.where[ref.where!] : clause;
+  };
+
+  const updateCondition = (ref: ChipRef, next: FieldClause | null) => {
+    if (!filter || !onFilterChange) return;
+    const clauses = filter.clauses
+      .map((clause, i) => {
+        if (i !== ref.clause) return clause;
+        if (clause.kind === 'field') return next;
+        const where = clause.where.map((w, j) => (j === ref.where ? next : w)).filter(Boolean) as FieldClause[];
+        return where.length > 0 ? { ...clause, where } : null;
+      })
+      .filter(Boolean) as SearchFilter['clauses'];
+    onFilterChange({ clauses });
+  };
+
+  const openEditor = (ref: ChipRef, anchor: HTMLElement) => {
+    const condition = getCondition(ref);
+    const value = Array.isArray(condition.value) ? condition.value.join(', ') : String(condition.value);
+    setEditing({ ref, anchor, op: condition.op, value });
+  };
+
+  const saveEditor = () => {
+    if (!editing) return;
+    const condition = getCondition(editing.ref);
+    const parts = editing.value.split(',').map(s => s.trim()).filter(Boolean);
+    const value = ARRAY_OPERATORS.includes(editing.op) && parts.length > 1 ? parts : editing.value.trim();
+    updateCondition(editing.ref, { ...condition, op: editing.op, value });
+    setEditing(null);
   };
 
+  const renderChip = (condition: FieldClause, ref: ChipRef, prefix: string) => (
+    <Chip
+      key={`${ref.clause}-${ref.where ?? ''}`}
+      label={`${prefix}${describeFieldClause(condition)}`}
+      color="primary"
+      variant="outlined"
+      onClick={onFilterChange ? e => openEditor(ref, e.currentTarget) : undefined}
+      onDelete={onFilterChange ? () => updateCondition(ref, null) : undefined}
+    />
+  );
+
   return (
-    <form onSubmit={handleSubmit} style={{ display: 'flex', gap: 8, marginBottom: 24 }}>
-      <input
-        type="text"
-        value={query}
-        onChange={e => setQuery(e.target.value)}
-        placeholder="Search with natural language..."
-        style={{ flex: 1, padding: 8, fontSize: 16 }}
-        disabled={loading}
-      />
-      <button type="submit" disabled={loading || !query.trim()} style={{ padding: '8px 16px', fontSize: 16 }}>
-        {loading ? 'Searching...' : 'Search'}
-      </button>
-    </form>
+    <Box sx={{ mb: 3 }}>
+      <form onSubmit={handleSubmit} style={{ display: 'flex', gap: 8 }}>
+        {columns && (
+          <ToggleButtonGroup size="small" exclusive value={mode} onChange={(_, value) => value && setMode(value)}>
+            <ToggleButton value="ai">AI</ToggleButton>
+            <ToggleButton value="query">Query</ToggleButton>
+          </ToggleButtonGroup>
+        )}
+        <input
+          ref={inputRef}
+          type="text"
+          value={query}
+          onChange={e => {
+            setQuery(e.target.value);
+            setCursor(e.target.selectionStart ?? e.target.value.length);
+          }}
+          onKeyUp={trackCursor}
+          onClick={trackCursor}
+          onKeyDown={handleKeyDown}
+          placeholder={mode === 'query' ? 'tasks.Duration > 3 AND RequiredSkills has "React"' : 'Search with natural language...'}
+          style={{
+            flex: 1,
+            padding: 8,
+            fontSize: 16,
+            fontFamily: mode === 'query' ? 'monospace' : undefined,
+            borderColor: parsed?.error ? '#f44336' : undefined,
+          }}
+          disabled={loading}
+          spellCheck={mode !== 'query'}
+        />
+        <button type="submit" disabled={loading || !query.trim() || !!parsed?.error} style={{ padding: '8px 16px', fontSize: 16 }}>
+          {loading ? 'Searching...' : structured ? 'Filter' : 'Search'}
+        </button>
+      </form>
+
+      {parsed?.error && (
+        <Box sx={{ mt: 1 }}>
+          <Typography variant="body2" sx={{ fontFamily: 'monospace', whiteSpace: 'pre' }}>
+            {query.slice(0, parsed.error.start)}
+            <Box component="span" sx={{ background: '#ffebee', borderBottom: '2px solid #f44336' }}>
+              {query.slice(parsed.error.start, parsed.error.end) || ' '}
+            </Box>
+            {query.slice(parsed.error.end)}
+          </Typography>
+          <Typography variant="caption" color="error">{parsed.error.message}</Typography>
+        </Box>
+      )}
+
+      {completions && completions.options.length > 0 && (
+        <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap', alignItems: 'center', mt: 1 }}>
+          <Typography variant="caption" color="text.secondary">Tab:</Typography>
+          {completions.options.map(option => (
+            <Chip key={option} label={option} size="small" onClick={() => applyCompletion(option)} sx={{ fontFamily: 'monospace' }} />
+          ))}
+        </Box>
+      )}
+
+      {filter && filter.clauses.length > 0 && (
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'center', mt: 1 }}>
+          <Typography variant="caption" color="text.secondary">Filter:</Typography>
+          {filter.clauses.map((clause, i) =>
+            clause.kind === 'field'
+              ? renderChip(clause, { clause: i }, `${clause.entity}: `)
+              : clause.where.map((w, j) => renderChip(w, { clause: i, where: j }, `${clause.entity} ${JOIN_RELATIONS[clause.relation].label} `))
+          )}
+        </Box>
+      )}
+
+      <Popover
+        open={!!editing}
+        anchorEl={editing?.anchor}
+        onClose={() => setEditing(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'left' }}
+      >
+        {editing && (
+          <Box sx={{ p: 2, display: 'flex', gap: 1, alignItems: 'center' }}>
+            <Typography variant="body2">{getCondition(editing.ref).field}</Typography>
+            <Select size="small" value={editing.op} onChange={e => setEditing({ ...editing, op: e.target.value as FilterOperator })}>
+              {FILTER_OPERATORS.map(op => (
+                <MenuItem key={op} value={op}>{OPERATOR_LABELS[op]}</MenuItem>
+              ))}
+            </Select>
+            <TextField
+              size="small"
+              value={editing.value}
+              onChange={e => setEditing({ ...editing, value: e.target.value })}
+              helperText={ARRAY_OPERATORS.includes(editing.op) ? 'Comma-separated for several values' : undefined}
+            />
+            <Button variant="contained" size="small" onClick={saveEditor} disabled={!editing.value.trim()}>
+              Apply
+            </Button>
+          </Box>
+        )}
+      </Popover>
+    </Box>
   );
 };
 
-export default NaturalLanguageSearch; 
\ No newline at end of file
+export default NaturalLanguageSearch;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { Box, Checkbox, FormControlLabel, TextField, Typography } from '@mui/material';
+import { calendarPhases, isBlackout, MAX_PHASES, PhaseCalendar, resizePhaseCalendar } from '../utils/phaseCalendar';
+
+interface PhaseCalendarEditorProps {
+  calendar: PhaseCalendar;
+  onChange: (calendar: PhaseCalendar) => void;
+}
+
+const PhaseCalendarEditor: React.FC<PhaseCalendarEditorProps> = ({ calendar, onChange }) => {
+  const setAt = (list: string[], phase: number, value: string) => {
+    const next = [...list];
+    while (next.length < phase) next.push('');
+    next[phase - 1] = value;
+    return next;
+  };
+
+  const toggleBlackout = (phase: number, blackout: boolean) => {
+    const rest = calendar.blackout.filter(p => p !== phase);
+    onChange({ ...calendar, blackout: blackout ? [...rest, phase].sort((a, b) => a - b) : rest });
+  };
+
+  return (
+    <Box>
+      <Typography variant="h6" gutterBottom>
+        🗓️ Phase Calendar
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Phase columns are checked against these phases, open ranges like &gt;=3 end at the last one, and blackout phases are never scheduled
+      </Typography>
+
+      <TextField
+        type="number"
+        size="small"
+        label="Number of phases"
+        value={calendar.count}
+        inputProps={{ min: 1, max: MAX_PHASES }}
+        onChange={e => {
+          const count = Number(e.target.value);
+          if (Number.isInteger(count) && count >= 1 && count <= MAX_PHASES) onChange(resizePhaseCalendar(calendar, count));
+        }}
+        sx={{ mb: 2, width: 180 }}
+      />
+
+      <Box sx={{ maxHeight: 320, overflow: 'auto' }}>
+        {calendarPhases(calendar).map(phase => (
+          <Box key={phase} sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+            <Typography variant="body2" sx={{ width: 64 }}>Phase {phase}</Typography>
+            <TextField
+              size="small"
+              label="Label"
+              value={calendar.labels[phase - 1] || ''}
+              onChange={e => onChange({ ...calendar, labels: setAt(calendar.labels, phase, e.target.value) })}
+            />
+            <TextField
+              size="small"
+              type="date"
+              label="Starts"
+              InputLabelProps={{ shrink: true }}
+              value={calendar.dates[phase - 1] || ''}
+              onChange={e => onChange({ ...calendar, dates: setAt(calendar.dates, phase, e.target.value) })}
+            />
+            <FormControlLabel
+              control={<Checkbox checked={isBlackout(calendar, phase)} onChange={e => toggleBlackout(phase, e.target.checked)} />}
+              label="Blackout"
+            />
+          </Box>
+        ))}
+      </Box>
+    </Box>
+  );
+};
+
+export default PhaseCalendarEditor;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { 
   Card, 
   CardContent, 
@@ -16,6 +16,9 @@ import {
   Divider,
   Alert
 } from '@mui/material';
+import { analyzeRules, applyRuleResolution, RuleIssueKind, RuleResolution } from '../utils/ruleAnalyzer';
+import { remapRuleReferences } from '../utils/ruleUtils';
+import { calendarPhases, DEFAULT_PHASE_CALENDAR, isBlackout, PhaseCalendar, phaseLabel } from '../utils/phaseCalendar';
 
 // Rule types
 const RULE_TYPES = [
@@ -27,6 +30,12 @@ const RULE_TYPES = [
   { value: 'precedenceOverride', label: 'Precedence Override', description: 'Global vs specific rule priorities' }
 ];
 
+const ISSUE_SEVERITY: Record<RuleIssueKind, 'error' | 'warning' | 'info'> = {
+  conflict: 'error',
+  duplicate: 'warning',
+  subsumed: 'info',
+};
+
 export type Rule =
   | { type: 'coRun'; tasks: string[]; priority?: number }
   | { type: 'slotRestriction'; group: string; minCommonSlots: number; priority?: number }
@@ -39,13 +48,16 @@ interface RuleBuilderProps {
   tasks: any[];
   workers: any[];
   clients: any[];
-  onRulesChange: (rules: Rule[]) => void;
+  rules: Rule[];
+  calendar?: PhaseCalendar;
+  ruleErrors?: { [ruleIndex: number]: string[] };
+  // The label names the change in the undo history.
+  onRulesChange: (rules: Rule[], label?: string) => void;
   onAddRuleFromNL?: (description: string) => Promise<void>;
   nlLoading?: boolean;
 }
 
-const RuleBuilder: React.FC<RuleBuilderProps> = ({ tasks, workers, clients, onRulesChange, onAddRuleFromNL, nlLoading }) => {
-  const [rules, setRules] = useState<Rule[]>([]);
+const RuleBuilder: React.FC<RuleBuilderProps> = ({ tasks, workers, clients, rules, calendar = DEFAULT_PHASE_CALENDAR, ruleErrors, onRulesChange, onAddRuleFromNL, nlLoading }) => {
   const [selectedType, setSelectedType] = useState<string>('');
   const [nlInput, setNlInput] = useState('');
 
@@ -72,6 +84,15 @@ const RuleBuilder: React.FC<RuleBuilderProps> = ({ tasks, workers, clients, onRu
   const [globalRules, setGlobalRules] = useState<string[]>([]);
   const [specificRules, setSpecificRules] = useState<string[]>([]);
 
+  const ruleIssues = useMemo(
+    () => analyzeRules(rules, { clients, workers, tasks, calendar }),
+    [rules, clients, workers, tasks, calendar]
+  );
+
+  const handleResolveIssue = (resolution: RuleResolution) => {
+    onRulesChange(applyRuleResolution(rules, resolution), `Rules: ${resolution.label}`);
+  };
+
   const getGroups = () => {
     const clientGroups = [...new Set(clients.map(c => c.GroupTag).filter(Boolean))];
     const workerGroups = [...new Set(workers.map(w => w.WorkerGroup).filter(Boolean))];
@@ -134,16 +155,13 @@ const RuleBuilder: React.FC<RuleBuilderProps> = ({ tasks, workers, clients, onRu
         return;
     }
 
-    const updatedRules = [...rules, newRule];
-    setRules(updatedRules);
-    onRulesChange(updatedRules);
+    onRulesChange([...rules, newRule], `Add ${newRule.type} rule`);
     resetForm();
   };
 
   const handleDeleteRule = (idx: number) => {
-    const updatedRules = rules.filter((_, i) => i !== idx);
-    setRules(updatedRules);
-    onRulesChange(updatedRules);
+    const remaining = remapRuleReferences(rules.filter((_, i) => i !== idx), i => (i < idx ? i : i > idx ? i - 1 : undefined));
+    onRulesChange(remaining, `Delete rule ${idx + 1} (${rules[idx].type})`);
   };
 
   const resetForm = () => {
@@ -248,10 +266,11 @@ const RuleBuilder: React.FC<RuleBuilderProps> = ({ tasks, workers, clients, onRu
             </FormControl>
             <Typography variant="subtitle2" gutterBottom>Allowed Phases:</Typography>
             <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
-              {[1, 2, 3, 4, 5, 6].map(phase => (
+              {calendarPhases(calendar).map(phase => (
                 <Chip
                   key={phase}
-                  label={`Phase ${phase}`}
+                  label={isBlackout(calendar, phase) ? `${phaseLabel(calendar, phase)} · blackout` : phaseLabel(calendar, phase)}
+                  disabled={isBlackout(calendar, phase) && !allowedPhases.includes(phase)}
                   onClick={() => setAllowedPhases(prev => 
                     prev.includes(phase) 
                       ? prev.filter(p => p !== phase)
@@ -305,7 +324,7 @@ const RuleBuilder: React.FC<RuleBuilderProps> = ({ tasks, workers, clients, onRu
               value={globalRules.join('\n')}
               onChange={e => setGlobalRules(e.target.value.split('\n').filter(Boolean))}
               sx={{ mb: 2 }}
-              placeholder="Enter rule IDs, one per line"
+              placeholder="Enter rule numbers (e.g. 2) or rule types, one per line"
             />
             <Typography variant="subtitle2" gutterBottom>Specific Rules (higher priority):</Typography>
             <TextField
@@ -314,7 +333,7 @@ const RuleBuilder: React.FC<RuleBuilderProps> = ({ tasks, workers, clients, onRu
               rows={2}
               value={specificRules.join('\n')}
               onChange={e => setSpecificRules(e.target.value.split('\n').filter(Boolean))}
-              placeholder="Enter rule IDs, one per line"
+              placeholder="Enter rule numbers (e.g. 2) or rule types, one per line"
             />
           </Box>
         );
@@ -397,12 +416,24 @@ const RuleBuilder: React.FC<RuleBuilderProps> = ({ tasks, workers, clients, onRu
             <Typography variant="subtitle1" gutterBottom>
               Current Rules ({rules.length})
             </Typography>
+            {ruleIssues.map((issue, i) => (
+              <Alert key={i} severity={ISSUE_SEVERITY[issue.kind]} sx={{ mb: 1 }}>
+                <Typography variant="body2">{issue.message}</Typography>
+                <Box sx={{ display: 'flex', gap: 1, mt: 1, flexWrap: 'wrap' }}>
+                  {issue.resolutions.map((resolution, j) => (
+                    <Button key={j} size="small" variant="outlined" onClick={() => handleResolveIssue(resolution)}>
+                      {resolution.label}
+                    </Button>
+                  ))}
+                </Box>
+              </Alert>
+            ))}
             {rules.map((rule, idx) => (
               <Box 
                 key={idx} 
                 sx={{ 
                   p: 2, 
-                  border: '1px solid #e0e0e0', 
+                  border: ruleErrors?.[idx] ? '1px solid #f44336' : '1px solid #e0e0e0', 
                   borderRadius: 1, 
                   mb: 1,
                   display: 'flex',
@@ -411,12 +442,30 @@ const RuleBuilder: React.FC<RuleBuilderProps> = ({ tasks, workers, clients, onRu
                 }}
               >
                 <Box>
-                  <Typography variant="body2" fontWeight="bold">
-                    {RULE_TYPES.find(t => t.value === rule.type)?.label}
-                  </Typography>
+                  <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                    <Typography variant="body2" fontWeight="bold">
+                      {idx + 1}. {RULE_TYPES.find(t => t.value === rule.type)?.label}
+                    </Typography>
+                    {ruleIssues.filter(issue => issue.ruleIndices.includes(idx)).map((issue, i) => (
+                      <Chip
+                        key={`issue-${i}`}
+                        label={issue.kind}
+                        size="small"
+                        color={ISSUE_SEVERITY[issue.kind]}
+                        variant="outlined"
+                        sx={{ ml: 1 }}
+                        title={issue.message}
+                      />
+                    ))}
+                  </Box>
                   <Typography variant="caption" color="text.secondary">
                     {JSON.stringify(rule)}
                   </Typography>
+                  {ruleErrors?.[idx]?.map((message, i) => (
+                    <Typography key={i} variant="caption" color="error" sx={{ display: 'block' }}>
+                      ⚠️ {message}
+                    </Typography>
+                  ))}
                 </Box>
                 <IconButton onClick={() => handleDeleteRule(idx)} color="error" size="small">
                   🗑️
@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Box,
+  Chip,
+  Checkbox,
+  FormControlLabel,
+  Radio,
+  RadioGroup,
+  Alert,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText
+} from '@mui/material';
+import { Rule } from './RuleBuilder';
+import { Weights } from './PrioritizationSliders';
+import { RuleImportResult, ImportedRuleStatus, buildImportedRules } from '../utils/ruleImport';
+import { describeRule } from '../utils/ruleUtils';
+import { PhaseCalendar } from '../utils/phaseCalendar';
+
+interface RuleImportDialogProps {
+  result: RuleImportResult | null;
+  existingRuleCount: number;
+  onCancel: () => void;
+  onConfirm: (rules: Rule[], weights: Weights | null, mode: 'replace' | 'append', calendar: PhaseCalendar | null) => void;
+}
+
+const STATUS_COLORS: Record<ImportedRuleStatus, 'success' | 'error' | 'warning'> = {
+  valid: 'success',
+  invalid: 'error',
+  unresolved: 'warning',
+};
+
+const RuleImportDialog: React.FC<RuleImportDialogProps> = ({ result, existingRuleCount, onCancel, onConfirm }) => {
+  const [included, setIncluded] = useState<Set<number>>(new Set());
+  const [mode, setMode] = useState<'replace' | 'append'>('replace');
+  const [applyWeights, setApplyWeights] = useState(true);
+  const [applyCalendar, setApplyCalendar] = useState(true);
+
+  useEffect(() => {
+    if (!result) return;
+    // Rules referencing data that isn't loaded are opt-in.
+    setIncluded(new Set(result.entries.filter(e => e.status === 'valid').map(e => e.index)));
+    setMode('replace');
+    setApplyWeights(result.weights !== null);
+    setApplyCalendar(result.phaseCalendar !== null);
+  }, [result]);
+
+  if (!result) return null;
+
+  const toggle = (index: number) => {
+    setIncluded(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const handleConfirm = () => {
+    const rules = buildImportedRules(result.entries, included, mode === 'append' ? existingRuleCount : 0);
+    onConfirm(rules, applyWeights ? result.weights : null, mode, applyCalendar ? result.phaseCalendar : null);
+  };
+
+  const invalidCount = result.entries.filter(e => e.status === 'invalid').length;
+
+  return (
+    <Dialog open maxWidth="md" fullWidth onClose={onCancel}>
+      <DialogTitle>Import Rules</DialogTitle>
+      <DialogContent>
+        {result.metadata?.exportedAt && (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            Exported {new Date(result.metadata.exportedAt).toLocaleString()}
+          </Typography>
+        )}
+        {invalidCount > 0 && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {invalidCount} entr{invalidCount === 1 ? 'y is' : 'ies are'} not valid rules and will be skipped.
+          </Alert>
+        )}
+
+        <List dense>
+          {result.entries.map(entry => (
+            <ListItem key={entry.index} sx={{ border: '1px solid #e0e0e0', borderRadius: 1, mb: 1 }}>
+              <ListItemIcon>
+                <Checkbox
+                  edge="start"
+                  checked={included.has(entry.index)}
+                  disabled={entry.status === 'invalid'}
+                  onChange={() => toggle(entry.index)}
+                />
+              </ListItemIcon>
+              <ListItemText
+                primary={
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <Typography variant="body2">
+                      {entry.index + 1}. {entry.rule ? describeRule(entry.rule) : JSON.stringify(entry.raw)}
+                    </Typography>
+                    <Chip label={entry.status} size="small" color={STATUS_COLORS[entry.status]} variant="outlined" />
+                  </Box>
+                }
+                secondary={
+                  <Box component="span">
+                    {entry.messages.map((message, i) => (
+                      <Typography key={i} variant="caption" component="span" sx={{ display: 'block' }}>
+                        {message}
+                      </Typography>
+                    ))}
+                    {entry.reconciled && (
+                      <Typography variant="caption" component="span" color="primary" sx={{ display: 'block' }}>
+                        Will import as: {describeRule(entry.reconciled)}
+                      </Typography>
+                    )}
+                  </Box>
+                }
+              />
+            </ListItem>
+          ))}
+        </List>
+
+        <Box sx={{ mt: 2 }}>
+          <FormControlLabel
+            control={<Checkbox checked={applyWeights} disabled={!result.weights} onChange={e => setApplyWeights(e.target.checked)} />}
+            label={result.weights ? 'Apply imported weights to the prioritization sliders' : 'No weights in file'}
+          />
+          {result.weightMessages.map((message, i) => (
+            <Typography key={i} variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+              {message}
+            </Typography>
+          ))}
+          {result.phaseCalendar && (
+            <FormControlLabel
+              control={<Checkbox checked={applyCalendar} onChange={e => setApplyCalendar(e.target.checked)} />}
+              label={`Apply imported phase calendar (${result.phaseCalendar.count} phases${result.phaseCalendar.blackout.length > 0 ? `, blackout ${result.phaseCalendar.blackout.join(', ')}` : ''})`}
+            />
+          )}
+        </Box>
+
+        <RadioGroup row value={mode} onChange={e => setMode(e.target.value as 'replace' | 'append')} sx={{ mt: 2 }}>
+          <FormControlLabel value="replace" control={<Radio />} label="Replace current rules" />
+          <FormControlLabel value="append" control={<Radio />} label={`Append to current rules (${existingRuleCount})`} />
+        </RadioGroup>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel}>Cancel</Button>
+        <Button variant="contained" onClick={handleConfirm} disabled={included.size === 0 && !applyWeights}>
+          Import {included.size} Rule{included.size === 1 ? '' : 's'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RuleImportDialog;
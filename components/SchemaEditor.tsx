@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Box, Button, Chip, FormControl, FormControlLabel, InputLabel, MenuItem, Select, Switch, TextField, Typography } from '@mui/material';
+import type { Entity } from '../utils/validationUtils';
+import {
+  CustomField,
+  FieldKind,
+  FIELD_KINDS,
+  FIELD_KIND_LABELS,
+  ENTITIES,
+  defaultSchemas,
+  describeField,
+  normalizeCustomFields,
+} from '../utils/entitySchema';
+
+interface SchemaEditorProps {
+  customFields: CustomField[];
+  // Columns found in the uploaded data that no schema defines.
+  unknownColumns: { entity: Entity; name: string }[];
+  onChange: (fields: CustomField[]) => void;
+}
+
+const emptyDraft = { entity: 'workers' as Entity, name: '', kind: 'string' as FieldKind, min: '', max: '', required: false };
+
+const SchemaEditor: React.FC<SchemaEditorProps> = ({ customFields, unknownColumns, onChange }) => {
+  const [draft, setDraft] = useState(emptyDraft);
+
+  const taken = (entity: Entity, name: string) =>
+    defaultSchemas[entity].fields.some(f => f.name === name) || customFields.some(f => f.entity === entity && f.name === name);
+
+  const addField = (field: Partial<CustomField> & { entity: Entity; name: string }) => {
+    onChange(normalizeCustomFields([...customFields, { label: field.name, kind: 'string', ...field }]));
+  };
+
+  const ranged = draft.kind === 'number';
+
+  const handleAdd = () => {
+    const name = draft.name.trim();
+    addField({
+      entity: draft.entity,
+      name,
+      kind: draft.kind,
+      required: draft.required,
+      min: ranged && draft.min.trim() !== '' ? Number(draft.min) : undefined,
+      max: ranged && draft.max.trim() !== '' ? Number(draft.max) : undefined,
+    });
+    setDraft({ ...emptyDraft, entity: draft.entity });
+  };
+
+  const handleRemove = (field: CustomField) => {
+    onChange(customFields.filter(f => !(f.entity === field.entity && f.name === field.name)));
+  };
+
+  const name = draft.name.trim();
+  const nameError = name && !/^[A-Za-z_][\w.-]*$/.test(name)
+    ? 'Letters, digits, _ . - only'
+    : name && taken(draft.entity, name) ? 'Column already exists' : '';
+  const rangeError = ranged && [draft.min, draft.max].some(v => v.trim() !== '' && isNaN(Number(v)));
+
+  return (
+    <Box>
+      <Typography variant="h6" gutterBottom>
+        🧩 Custom Columns
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Extra columns are validated, shown in the grids, exported and described to the AI like the built-in ones
+      </Typography>
+
+      {customFields.length > 0 && (
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+          {customFields.map(field => (
+            <Chip
+              key={`${field.entity}.${field.name}`}
+              label={`${field.entity}.${field.name} (${describeField(field)}${field.required ? ', required' : ''})`}
+              onDelete={() => handleRemove(field)}
+            />
+          ))}
+        </Box>
+      )}
+
+      {unknownColumns.length > 0 && (
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'center', mb: 2 }}>
+          <Typography variant="caption" color="text.secondary">Found in data:</Typography>
+          {unknownColumns.map(col => (
+            <Chip
+              key={`${col.entity}.${col.name}`}
+              label={`+ ${col.entity}.${col.name}`}
+              variant="outlined"
+              color="primary"
+              size="small"
+              onClick={() => addField({ entity: col.entity, name: col.name })}
+            />
+          ))}
+        </Box>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'flex-start' }}>
+        <FormControl size="small" sx={{ minWidth: 120 }}>
+          <InputLabel>Entity</InputLabel>
+          <Select label="Entity" value={draft.entity} onChange={e => setDraft({ ...draft, entity: e.target.value as Entity })}>
+            {ENTITIES.map(entity => <MenuItem key={entity} value={entity}>{entity}</MenuItem>)}
+          </Select>
+        </FormControl>
+        <TextField
+          size="small"
+          label="Column"
+          placeholder="HourlyRate"
+          value={draft.name}
+          onChange={e => setDraft({ ...draft, name: e.target.value })}
+          error={!!nameError}
+          helperText={nameError || ' '}
+        />
+        <FormControl size="small" sx={{ minWidth: 140 }}>
+          <InputLabel>Type</InputLabel>
+          <Select label="Type" value={draft.kind} onChange={e => setDraft({ ...draft, kind: e.target.value as FieldKind })}>
+            {FIELD_KINDS.map(kind => <MenuItem key={kind} value={kind}>{FIELD_KIND_LABELS[kind]}</MenuItem>)}
+          </Select>
+        </FormControl>
+        {ranged && (
+          <>
+            <TextField size="small" label="Min" value={draft.min} onChange={e => setDraft({ ...draft, min: e.target.value })} sx={{ width: 90 }} error={rangeError} />
+            <TextField size="small" label="Max" value={draft.max} onChange={e => setDraft({ ...draft, max: e.target.value })} sx={{ width: 90 }} error={rangeError} />
+          </>
+        )}
+        <FormControlLabel
+          control={<Switch checked={draft.required} onChange={e => setDraft({ ...draft, required: e.target.checked })} />}
+          label="Required"
+        />
+        <Button variant="contained" onClick={handleAdd} disabled={!name || !!nameError || rangeError}>
+          Add Column
+        </Button>
+      </Box>
+    </Box>
+  );
+};
+
+export default SchemaEditor;
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Box, Card, CardContent, Chip, FormControlLabel, LinearProgress, Switch, Typography } from '@mui/material';
+import type { ValidationProgress, ValidationResult } from '../utils/validationUtils';
+import { Severity, SEVERITIES, Validator } from '../utils/validators';
+
+interface ValidationSummaryProps {
+  validation: ValidationResult;
+  // Set while a slow run is in flight; the issues shown are from the previous run until it ends.
+  progress?: ValidationProgress | null;
+  validators: Validator[];
+  disabled: string[];
+  onDisabledChange: (disabled: string[]) => void;
+}
+
+const SEVERITY_COLORS: Record<Severity, 'error' | 'warning' | 'info'> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'info',
+};
+
+const ValidationSummary: React.FC<ValidationSummaryProps> = ({ validation, progress, validators, disabled, onDisabledChange }) => {
+  const [shown, setShown] = useState<Severity[]>(SEVERITIES);
+  const [showChecks, setShowChecks] = useState(false);
+
+  const counts = SEVERITIES.reduce(
+    (acc, severity) => ({ ...acc, [severity]: validation.issues.filter(issue => issue.severity === severity).length }),
+    {} as Record<Severity, number>
+  );
+  const issues = validation.issues.filter(issue => shown.includes(issue.severity));
+
+  const toggleSeverity = (severity: Severity) =>
+    setShown(prev => (prev.includes(severity) ? prev.filter(s => s !== severity) : [...prev, severity]));
+
+  const toggleValidator = (id: string, enabled: boolean) =>
+    onDisabledChange(enabled ? disabled.filter(d => d !== id) : [...disabled, id]);
+
+  return (
+    <Card sx={{ mb: 3, background: '#fffbe6', border: '1px solid #ffe58f' }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+          <Typography variant="h6">Validation Summary</Typography>
+          <Chip
+            label={`Checks (${validators.filter(v => !disabled.includes(v.id)).length}/${validators.length} on)`}
+            size="small"
+            variant={showChecks ? 'filled' : 'outlined'}
+            onClick={() => setShowChecks(v => !v)}
+          />
+        </Box>
+
+        {progress && (
+          <Box sx={{ mb: 2 }}>
+            <LinearProgress variant="determinate" value={(progress.done / Math.max(progress.total, 1)) * 100} />
+            <Typography variant="caption" color="text.secondary">
+              Checking {progress.label} ({progress.done}/{progress.total})
+            </Typography>
+          </Box>
+        )}
+
+        {showChecks && (
+          <Box sx={{ mb: 2 }}>
+            {validators.map(validator => (
+              <Box key={validator.id} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <FormControlLabel
+                  control={
+                    <Switch
+                      size="small"
+                      checked={!disabled.includes(validator.id)}
+                      onChange={e => toggleValidator(validator.id, e.target.checked)}
+                    />
+                  }
+                  label={validator.label}
+                />
+                <Chip label={validator.severity} size="small" variant="outlined" color={SEVERITY_COLORS[validator.severity]} />
+                <Typography variant="caption" color="text.secondary">{validator.description}</Typography>
+              </Box>
+            ))}
+          </Box>
+        )}
+
+        {validation.issues.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            No issues found by the enabled checks.
+          </Typography>
+        ) : (
+          <Box sx={{ mb: 2 }}>
+            <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+              {SEVERITIES.map(severity => (
+                <Chip
+                  key={severity}
+                  label={`${severity} (${counts[severity]})`}
+                  size="small"
+                  color={SEVERITY_COLORS[severity]}
+                  variant={shown.includes(severity) ? 'filled' : 'outlined'}
+                  onClick={() => toggleSeverity(severity)}
+                />
+              ))}
+            </Box>
+            <ul>
+              {issues.map((issue, i) => (
+                <li key={i}>
+                  <Chip label={issue.severity} size="small" color={SEVERITY_COLORS[issue.severity]} variant="outlined" sx={{ mr: 1 }} />
+                  {issue.message}{' '}
+                  <Typography component="span" variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+                    [{issue.code}]
+                  </Typography>
+                </li>
+              ))}
+            </ul>
+          </Box>
+        )}
+
+        {validation.suggestions.length > 0 && (
+          <Box>
+            <Typography variant="subtitle2" color="primary" gutterBottom>
+              Suggestions ({validation.suggestions.length}):
+            </Typography>
+            <ul>
+              {validation.suggestions.map((msg, i) => <li key={i}>{msg}</li>)}
+            </ul>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ValidationSummary;
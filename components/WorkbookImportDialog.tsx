@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  Button,
+  Chip,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import type { Entity } from '../utils/validationUtils';
+import { ENTITIES } from '../utils/entitySchema';
+import { WorkbookImport } from '../utils/workbookUtils';
+
+interface WorkbookImportDialogProps {
+  workbook: WorkbookImport | null;
+  onCancel: () => void;
+  onConfirm: (assignments: Record<string, Entity>) => void;
+}
+
+const SKIP = '__skip__';
+
+const WorkbookImportDialog: React.FC<WorkbookImportDialogProps> = ({ workbook, onCancel, onConfirm }) => {
+  const [assignments, setAssignments] = useState<Record<string, Entity | null>>({});
+
+  useEffect(() => {
+    if (!workbook) return;
+    setAssignments(Object.fromEntries(workbook.sheets.map(sheet => [sheet.name, workbook.detections[sheet.name]?.entity ?? null])));
+  }, [workbook]);
+
+  if (!workbook) return null;
+
+  const assigned = Object.values(assignments).filter(Boolean) as Entity[];
+  const duplicates = ENTITIES.filter(entity => assigned.filter(e => e === entity).length > 1);
+
+  const handleConfirm = () => {
+    const chosen: Record<string, Entity> = {};
+    Object.entries(assignments).forEach(([sheet, entity]) => {
+      if (entity) chosen[sheet] = entity;
+    });
+    onConfirm(chosen);
+  };
+
+  return (
+    <Dialog open onClose={onCancel} maxWidth="md" fullWidth>
+      <DialogTitle>
+        Import Workbook
+        <Typography variant="body2" color="text.secondary">{workbook.fileName}</Typography>
+      </DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Sheets were matched to entities by their headers. Check each one before importing; imported
+          sheets replace the current data for that entity.
+        </Typography>
+        {duplicates.length > 0 && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            More than one sheet is assigned to: {duplicates.join(', ')}
+          </Alert>
+        )}
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Sheet</TableCell>
+              <TableCell>Headers</TableCell>
+              <TableCell>Import as</TableCell>
+              <TableCell>Match</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {workbook.sheets.map(sheet => {
+              const detection = workbook.detections[sheet.name];
+              return (
+                <TableRow key={sheet.name}>
+                  <TableCell>
+                    {sheet.name}
+                    <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                      {sheet.rows.length} rows
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="caption" color="text.secondary">
+                      {sheet.headers.slice(0, 6).join(', ')}{sheet.headers.length > 6 ? ', …' : ''}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      size="small"
+                      value={assignments[sheet.name] ?? SKIP}
+                      onChange={e => setAssignments(prev => ({
+                        ...prev,
+                        [sheet.name]: e.target.value === SKIP ? null : (e.target.value as Entity),
+                      }))}
+                      error={!!assignments[sheet.name] && duplicates.includes(assignments[sheet.name]!)}
+                      sx={{ minWidth: 140 }}
+                    >
+                      {ENTITIES.map(entity => <MenuItem key={entity} value={entity}>{entity}</MenuItem>)}
+                      <MenuItem value={SKIP}>Skip</MenuItem>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    {detection?.entity ? (
+                      <Chip
+                        label={`${detection.entity} ${Math.round(detection.score * 100)}%`}
+                        size="small"
+                        color={detection.score >= 0.8 ? 'success' : 'warning'}
+                        variant="outlined"
+                      />
+                    ) : (
+                      <Chip label="no match" size="small" variant="outlined" />
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel}>Cancel</Button>
+        <Button variant="contained" onClick={handleConfirm} disabled={assigned.length === 0 || duplicates.length > 0}>
+          Import {assigned.length} Sheet{assigned.length === 1 ? '' : 's'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default WorkbookImportDialog;
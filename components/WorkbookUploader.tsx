@@ -0,0 +1,33 @@
+import React from 'react';
+import { readWorkbookSheets, SheetData } from '../utils/workbookUtils';
+
+interface WorkbookUploaderProps {
+  label: string;
+  onSheetsParsed: (sheets: SheetData[], fileName: string) => void;
+}
+
+const WorkbookUploader: React.FC<WorkbookUploaderProps> = ({ label, onSheetsParsed }) => {
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!/\.(xlsx|ods)$/i.test(file.name)) {
+      alert('Unsupported file type. Please upload an XLSX or ODS workbook.');
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = (evt) => {
+      onSheetsParsed(readWorkbookSheets(evt.target?.result as ArrayBuffer, file.name), file.name);
+    };
+    reader.readAsArrayBuffer(file);
+  };
+
+  return (
+    <div style={{ marginBottom: 16 }}>
+      <label style={{ fontWeight: 'bold' }}>{label}: </label>
+      <input type="file" accept=".xlsx,.ods" onChange={handleFileChange} />
+    </div>
+  );
+};
+
+export default WorkbookUploader;
@@ -0,0 +1,87 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Box, Button, FormControl, InputLabel, MenuItem, Select, TextField, Typography } from '@mui/material';
+import { listWorkspaces, WorkspaceSummary } from '../utils/workspaceUtils';
+
+interface WorkspacePickerProps {
+  activeId: string | null;
+  name: string;
+  // Bumped by the parent after saves/deletes so the list re-reads local storage.
+  revision: number;
+  onNameChange: (name: string) => void;
+  onSelect: (id: string) => void;
+  onSave: () => void;
+  onSaveAsNew: () => void;
+  onNew: () => void;
+  onDelete: () => void;
+  onDownload: () => void;
+  onUpload: (file: File) => void;
+}
+
+const WorkspacePicker: React.FC<WorkspacePickerProps> = ({
+  activeId,
+  name,
+  revision,
+  onNameChange,
+  onSelect,
+  onSave,
+  onSaveAsNew,
+  onNew,
+  onDelete,
+  onDownload,
+  onUpload,
+}) => {
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setWorkspaces(listWorkspaces());
+  }, [revision]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onUpload(file);
+    e.target.value = '';
+  };
+
+  return (
+    <Box>
+      <Typography variant="h6" gutterBottom>
+        💾 Workspaces
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Save the current data, rules and weights as a scenario, switch between scenarios, or share one as a bundle file
+      </Typography>
+      <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+        <FormControl sx={{ minWidth: 260 }}>
+          <InputLabel>Workspace</InputLabel>
+          <Select value={activeId && workspaces.some(ws => ws.id === activeId) ? activeId : ''} onChange={e => onSelect(e.target.value as string)}>
+            {workspaces.map(ws => (
+              <MenuItem key={ws.id} value={ws.id}>
+                <Box>
+                  <Typography variant="body2">{ws.name}</Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {ws.totalClients} clients · {ws.totalWorkers} workers · {ws.totalTasks} tasks · {new Date(ws.updatedAt).toLocaleString()}
+                  </Typography>
+                </Box>
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <TextField label="Name" value={name} onChange={e => onNameChange(e.target.value)} sx={{ flex: 1 }} />
+      </Box>
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+        <Button variant="contained" onClick={onSave} disabled={!name.trim()}>
+          {activeId ? 'Save' : 'Save Workspace'}
+        </Button>
+        <Button variant="outlined" onClick={onSaveAsNew} disabled={!activeId || !name.trim()}>Save as New</Button>
+        <Button variant="outlined" onClick={onNew}>New Workspace</Button>
+        <Button variant="outlined" onClick={onDownload}>Download Bundle</Button>
+        <Button variant="outlined" onClick={() => fileInput.current?.click()}>Upload Bundle</Button>
+        <Button variant="outlined" color="error" onClick={onDelete} disabled={!activeId}>Delete</Button>
+        <input ref={fileInput} type="file" accept=".json" hidden onChange={handleFileChange} />
+      </Box>
+    </Box>
+  );
+};
+
+export default WorkspacePicker;
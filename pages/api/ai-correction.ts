@@ -1,30 +1,46 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+import { getLLMProvider, extractJSON, LLMProvider, LLM_NOT_CONFIGURED } from '../../utils/llmProvider';
+import { buildSchemaRegistry, normalizeCustomFields, describeSchemas } from '../../utils/entitySchema';
+import { rowKeyOf, ROW_KEY_FIELD } from '../../utils/rowKeys';
 
 type AISuggestion = {
   entity: 'clients' | 'workers' | 'tasks';
-  row: number;
+  rowKey: string;
   column: string;
   issue: string;
   suggestedFix: string;
+  proposedValue: any;
 };
 
-async function getAICorrectionSuggestions(validationErrors: any, clients: any[], workers: any[], tasks: any[]) {
+async function getAICorrectionSuggestions(provider: LLMProvider, validationErrors: any, clients: any[], workers: any[], tasks: any[], schemaText: string) {
+  // The model needs to see the rows it is asked to fix; each carries the internal row key that the
+  // validation errors are keyed by and that suggestions must refer back to.
+  const rowsWithErrors = (entity: 'clients' | 'workers' | 'tasks', rows: any[]) =>
+    rows
+      .map((row, idx) => {
+        const { [ROW_KEY_FIELD]: _key, ...cells } = row;
+        return { rowKey: rowKeyOf(row, idx), ...cells };
+      })
+      .filter((row, idx) => idx < 5 || validationErrors?.[entity]?.[row.rowKey])
+      .slice(0, 30);
+
   const dataSummary = {
-    clients: clients.slice(0, 5),
-    workers: workers.slice(0, 5),
-    tasks: tasks.slice(0, 5),
+    clients: rowsWithErrors('clients', clients),
+    workers: rowsWithErrors('workers', workers),
+    tasks: rowsWithErrors('tasks', tasks),
   };
 
   const prompt = `You are an AI assistant helping to fix data validation errors in a resource allocation system. 
 
-Current data sample:
+Columns:
+${schemaText}
+
+Current data sample ("rowKey" identifies each row; copy it exactly into suggestions):
 Clients: ${JSON.stringify(dataSummary.clients)}
 Workers: ${JSON.stringify(dataSummary.workers)}
 Tasks: ${JSON.stringify(dataSummary.tasks)}
 
-Validation errors found:
+Validation errors found (by entity, then rowKey, then column):
 ${JSON.stringify(validationErrors, null, 2)}
 
 For each error, provide specific, actionable suggestions for fixing the data. Focus on:
@@ -37,10 +53,11 @@ Respond in this JSON format:
   "suggestions": [
     {
       "entity": "clients|workers|tasks",
-      "row": 2,
+      "rowKey": "r-abc123-4",
       "column": "RequiredSkills",
       "issue": "Missing worker skill",
-      "suggestedFix": "Add skill 'API Testing' to Bob Smith"
+      "suggestedFix": "Remove the unknown skill 'API Testing'",
+      "proposedValue": "data,analysis"
     }
   ],
   "generalAdvice": "overall advice for data quality"
@@ -48,33 +65,35 @@ Respond in this JSON format:
 
 Make sure each suggestion has:
 - entity: the data type (clients, workers, or tasks)
-- row: the row number (1-based index)
+- rowKey: the rowKey of the row, exactly as given in the data
 - column: the field name that has the issue
 - issue: a clear description of the problem
-- suggestedFix: a specific, actionable fix`;
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${OPENAI_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model: 'gpt-3.5-turbo',
-      messages: [
-        { role: 'system', content: 'You are a data quality expert helping fix validation errors. Always respond with valid JSON.' },
-        { role: 'user', content: prompt },
-      ],
-      temperature: 0.3,
-      max_tokens: 1000,
-    }),
+- suggestedFix: a specific, actionable fix
+- proposedValue: the exact new value for that cell, in the same format as the existing data
+  (numbers as numbers, lists as comma-separated strings or JSON arrays as in the data, AttributesJSON as valid JSON).
+  Use null only when no value can be proposed and the fix must be made by hand.`;
+
+  const text = await provider.complete({
+    task: 'ai-correction',
+    messages: [
+      { role: 'system', content: 'You are a data quality expert helping fix validation errors. Always respond with valid JSON.' },
+      { role: 'user', content: prompt },
+    ],
+    temperature: 0.3,
+    maxTokens: 1500,
   });
-
-  const data = await response.json();
-  const text = data.choices?.[0]?.message?.content || '';
   
+  // Models sometimes answer with a 1-based row number instead of the key; map it back while the
+  // request's rows are at hand.
+  const keyOf = (s: any): string | undefined => {
+    const rows = ({ clients, workers, tasks } as Record<string, any[]>)[s.entity] || [];
+    if (typeof s.rowKey === 'string' && rows.some((row, idx) => rowKeyOf(row, idx) === s.rowKey)) return s.rowKey;
+    if (typeof s.row === 'number' && rows[s.row - 1]) return rowKeyOf(rows[s.row - 1], s.row - 1);
+    return undefined;
+  };
+
   try {
-    const parsed = JSON.parse(text);
+    const parsed = JSON.parse(extractJSON(text));
     
     // Validate and ensure proper structure
     if (!parsed.suggestions || !Array.isArray(parsed.suggestions)) {
@@ -85,13 +104,20 @@ Make sure each suggestion has:
     }
 
     // Validate each suggestion has required fields
-    const validSuggestions: AISuggestion[] = parsed.suggestions.filter((s: any) => 
-      s.entity && ['clients', 'workers', 'tasks'].includes(s.entity) &&
-      typeof s.row === 'number' &&
-      s.column &&
-      s.issue &&
-      s.suggestedFix
-    );
+    const validSuggestions: AISuggestion[] = parsed.suggestions
+      .map((s: any) => ({ ...s, rowKey: keyOf(s) }))
+      .filter((s: any) =>
+        s.entity && ['clients', 'workers', 'tasks'].includes(s.entity) &&
+        s.rowKey &&
+        s.column &&
+        s.issue &&
+        s.suggestedFix
+      )
+      .map(({ row, ...s }: any) => ({
+        ...s,
+        // null means "no concrete value"; the client treats it as a manual fix.
+        proposedValue: s.proposedValue === null ? undefined : s.proposedValue,
+      }));
 
     return {
       suggestions: validSuggestions,
@@ -109,14 +135,16 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
-  if (!OPENAI_API_KEY) {
-    return res.status(500).json({ error: 'OpenAI API key not set' });
+  const provider = getLLMProvider();
+  if (!provider) {
+    return res.status(500).json({ error: LLM_NOT_CONFIGURED });
   }
 
-  const { validationErrors, clients, workers, tasks } = req.body;
+  const { validationErrors, clients, workers, tasks, customFields } = req.body;
+  const schemas = buildSchemaRegistry(normalizeCustomFields(customFields));
 
   try {
-    const suggestions = await getAICorrectionSuggestions(validationErrors, clients, workers, tasks);
+    const suggestions = await getAICorrectionSuggestions(provider, validationErrors, clients, workers, tasks, describeSchemas(schemas));
     res.status(200).json(suggestions);
   } catch (error) {
     res.status(500).json({ error: 'Internal server error' });
@@ -1,8 +1,8 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
+import { getLLMProvider, extractJSON, LLMProvider, LLM_NOT_CONFIGURED } from '../../utils/llmProvider';
+import { buildSchemaRegistry, normalizeCustomFields, describeSchemas } from '../../utils/entitySchema';
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-
-async function getAIRuleRecommendations(clients: any[], workers: any[], tasks: any[], existingRules: any[]) {
+async function getAIRuleRecommendations(provider: LLMProvider, clients: any[], workers: any[], tasks: any[], existingRules: any[], schemaText: string) {
   const dataSummary = {
     clients: clients.slice(0, 10),
     workers: workers.slice(0, 10),
@@ -11,6 +11,9 @@ async function getAIRuleRecommendations(clients: any[], workers: any[], tasks: a
 
   const prompt = `You are an AI assistant analyzing resource allocation data to suggest business rules. 
 
+Columns:
+${schemaText}
+
 Current data:
 Clients: ${JSON.stringify(dataSummary.clients)}
 Workers: ${JSON.stringify(dataSummary.workers)}
@@ -45,28 +48,18 @@ Respond in this JSON format:
   ]
 }`;
 
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${OPENAI_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model: 'gpt-3.5-turbo',
-      messages: [
-        { role: 'system', content: 'You are a business analyst specializing in resource allocation optimization.' },
-        { role: 'user', content: prompt },
-      ],
-      temperature: 0.4,
-      max_tokens: 1200,
-    }),
+  const text = await provider.complete({
+    task: 'ai-rule-recommendations',
+    messages: [
+      { role: 'system', content: 'You are a business analyst specializing in resource allocation optimization.' },
+      { role: 'user', content: prompt },
+    ],
+    temperature: 0.4,
+    maxTokens: 1200,
   });
-
-  const data = await response.json();
-  const text = data.choices?.[0]?.message?.content || '';
   
   try {
-    return JSON.parse(text);
+    return JSON.parse(extractJSON(text));
   } catch {
     return {
       recommendations: [],
@@ -79,14 +72,16 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
-  if (!OPENAI_API_KEY) {
-    return res.status(500).json({ error: 'OpenAI API key not set' });
+  const provider = getLLMProvider();
+  if (!provider) {
+    return res.status(500).json({ error: LLM_NOT_CONFIGURED });
   }
 
-  const { clients, workers, tasks, existingRules = [] } = req.body;
+  const { clients, workers, tasks, existingRules = [], customFields } = req.body;
+  const schemas = buildSchemaRegistry(normalizeCustomFields(customFields));
 
   try {
-    const recommendations = await getAIRuleRecommendations(clients, workers, tasks, existingRules);
+    const recommendations = await getAIRuleRecommendations(provider, clients, workers, tasks, existingRules, describeSchemas(schemas));
     res.status(200).json(recommendations);
   } catch (error) {
     res.status(500).json({ error: 'Internal server error' });
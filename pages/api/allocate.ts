@@ -0,0 +1,32 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { API_BODY_LIMIT, ApiPayloadError, parseApiPayload, passes } from '../../utils/apiPayload';
+import { solveAllocation } from '../../utils/allocationSolver';
+import { diagnoseUnmetRequests } from '../../utils/allocationDiagnostics';
+import { validateAllData } from '../../utils/validationUtils';
+
+// Validates like /api/validate, then runs the allocation solver and explains unmet requests.
+// As in the app, the allocation runs even when validation finds errors; check `ok` first.
+
+export const config = {
+  api: { bodyParser: { sizeLimit: API_BODY_LIMIT } },
+};
+
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const payload = parseApiPayload(req.body);
+    const { clients, workers, tasks, rules, weights, calendar } = payload;
+    const validation = validateAllData(payload);
+    const allocation = solveAllocation({ clients, workers, tasks, rules, weights, calendar });
+    const diagnostics = diagnoseUnmetRequests({ clients, workers, tasks, rules, calendar }, allocation);
+    res.status(200).json({ ok: passes(validation), validation, allocation, diagnostics, warnings: payload.warnings });
+  } catch (error) {
+    if (error instanceof ApiPayloadError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,75 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getLLMProvider, extractJSON, LLMProvider, LLM_NOT_CONFIGURED } from '../../utils/llmProvider';
+import { buildSchemaRegistry, normalizeCustomFields, describeSchemas, SchemaRegistry, ENTITIES } from '../../utils/entitySchema';
+import type { Entity } from '../../utils/validationUtils';
+
+async function suggestColumnMapping(
+  provider: LLMProvider,
+  entity: Entity,
+  headers: string[],
+  samples: Record<string, any[]>,
+  schemas: SchemaRegistry
+) {
+  const prompt = `You are a helpful assistant for a resource allocation tool. A user uploaded a ${entity} sheet whose headers don't match the expected columns. Map each uploaded header to one expected ${entity} column.
+
+Expected columns:
+${describeSchemas(schemas)}
+
+Entity: ${entity}
+Headers: ${headers.join(', ')}
+Sample values per header: ${JSON.stringify(samples)}
+
+Respond with only JSON in this format:
+{ "mapping": { "<uploaded header>": "<expected ${entity} column or null>" } }
+Use null when a header doesn't correspond to any expected column. Never map two headers to the same column.`;
+
+  const text = await provider.complete({
+    task: 'column-mapping',
+    messages: [
+      { role: 'system', content: 'You are a JSON API.' },
+      { role: 'user', content: prompt },
+    ],
+    temperature: 0,
+    maxTokens: 512,
+  });
+  try {
+    return JSON.parse(extractJSON(text));
+  } catch {
+    return null;
+  }
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+  const provider = getLLMProvider();
+  if (!provider) {
+    return res.status(500).json({ error: LLM_NOT_CONFIGURED });
+  }
+
+  const { entity, headers, samples = {}, customFields } = req.body;
+  if (!ENTITIES.includes(entity) || !Array.isArray(headers) || headers.length === 0) {
+    return res.status(400).json({ error: 'entity and headers are required' });
+  }
+  const schemas = buildSchemaRegistry(normalizeCustomFields(customFields));
+  const fields = schemas[entity as Entity].fields.map(f => f.name);
+
+  try {
+    const raw = await suggestColumnMapping(provider, entity, headers, samples, schemas);
+    if (!raw || typeof raw.mapping !== 'object' || raw.mapping === null) {
+      return res.status(422).json({ error: 'Could not parse a mapping from the AI response' });
+    }
+    // Keep only answers for the headers asked about that name a real column, first claim wins.
+    const mapping: Record<string, string> = {};
+    headers.forEach((header: string) => {
+      const target = raw.mapping[header];
+      if (typeof target === 'string' && fields.includes(target) && !Object.values(mapping).includes(target)) {
+        mapping[header] = target;
+      }
+    });
+    res.status(200).json({ mapping });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -1,40 +1,50 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
+import { getLLMProvider, extractJSON, LLMProvider, LLM_NOT_CONFIGURED } from '../../utils/llmProvider';
+import { parseSearchFilter } from '../../utils/searchFilter';
+import { buildSchemaRegistry, normalizeCustomFields, describeSchemas, schemaColumns, SchemaRegistry } from '../../utils/entitySchema';
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-
-async function callOpenAI(query: string, clients: any[], workers: any[], tasks: any[]) {
-  // Prepare a summary of the data (only first 10 rows per entity for prompt size)
-  const dataSummary = {
-    clients: clients.slice(0, 10),
-    workers: workers.slice(0, 10),
-    tasks: tasks.slice(0, 10),
-  };
-  const prompt = `You are a helpful assistant for a resource allocation tool. The user will provide a natural language query. You will receive three datasets: clients, workers, and tasks (each as an array of objects). For each entity, return a list of IDs (ClientID, WorkerID, TaskID) that match the user's query.\n\nUser query: ${query}\n\nClients: ${JSON.stringify(dataSummary.clients)}\nWorkers: ${JSON.stringify(dataSummary.workers)}\nTasks: ${JSON.stringify(dataSummary.tasks)}\n\nRespond in this JSON format: { "clients": [ClientID...], "workers": [WorkerID...], "tasks": [TaskID...] }`;
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${OPENAI_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model: 'gpt-3.5-turbo',
-      messages: [
-        { role: 'system', content: 'You are a JSON API.' },
-        { role: 'user', content: prompt },
-      ],
-      temperature: 0,
-      max_tokens: 512,
-    }),
+async function callLLM(provider: LLMProvider, query: string, schemas: SchemaRegistry, samples: Record<string, any[]>) {
+  // The model only translates the query; the filter runs in the browser over every row, so a
+  // few sample rows are enough to show value formats.
+  const prompt = `You are a helpful assistant for a resource allocation tool. Translate the user's natural language query into a filter expression over three entities: clients, workers and tasks.
+
+Columns:
+${describeSchemas(schemas)}
+
+Sample rows:
+Clients: ${JSON.stringify(samples.clients || [])}
+Workers: ${JSON.stringify(samples.workers || [])}
+Tasks: ${JSON.stringify(samples.tasks || [])}
+
+Filter format: { "clauses": [clause, ...] }
+A field clause: { "kind": "field", "entity": "clients|workers|tasks", "field": "<column>", "op": "<op>", "value": <string|number|array> }
+- op is one of eq, neq, gt, gte, lt, lte, contains (substring), listContains (list cell such as Skills or RequestedTaskIDs has the value; an array value means all of them), in (value is an array of allowed values)
+- keys inside AttributesJSON are addressed as "AttributesJSON.<key>"
+A join clause: { "kind": "join", "entity": "<entity>", "relation": "<relation>", "where": [field clauses on the related entity] }
+- tasks "requestedBy" clients; clients "requests" tasks; workers "qualifiedFor" tasks; tasks "staffableBy" workers
+Clauses on the same entity are combined with AND. Only include clauses for the entities the user is asking about; entities without clauses are not shown.
+
+Example: "tasks requested by priority-5 clients" ->
+{ "clauses": [{ "kind": "join", "entity": "tasks", "relation": "requestedBy", "where": [{ "kind": "field", "entity": "clients", "field": "PriorityLevel", "op": "eq", "value": 5 }] }] }
+
+User query: ${query}
+
+Respond with only the JSON filter.`;
+
+  const text = await provider.complete({
+    task: 'nl-search',
+    messages: [
+      { role: 'system', content: 'You are a JSON API.' },
+      { role: 'user', content: prompt },
+    ],
+    temperature: 0,
+    maxTokens: 512,
   });
-  const data = await response.json();
   // Try to parse the JSON from the response
-  const text = data.choices?.[0]?.message?.content || '';
   try {
-    const ids = JSON.parse(text);
-    return ids;
+    return JSON.parse(extractJSON(text));
   } catch {
-    return { clients: [], workers: [], tasks: [] };
+    return null;
   }
 }
 
@@ -42,20 +52,29 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
-  if (!OPENAI_API_KEY) {
-    return res.status(500).json({ error: 'OpenAI API key not set' });
+  const provider = getLLMProvider();
+  if (!provider) {
+    return res.status(500).json({ error: LLM_NOT_CONFIGURED });
   }
 
-  const { query, clients, workers, tasks } = req.body;
+  const { query, customFields, samples = {} } = req.body;
+  if (typeof query !== 'string' || !query.trim()) {
+    return res.status(400).json({ error: 'query is required' });
+  }
+
+  const schemas = buildSchemaRegistry(normalizeCustomFields(customFields));
 
   try {
-    const ids = await callOpenAI(query, clients, workers, tasks);
-    // Filter the original data by the returned IDs
-    const filteredClients = clients.filter((c: any) => ids.clients.includes(c.ClientID));
-    const filteredWorkers = workers.filter((w: any) => ids.workers.includes(w.WorkerID));
-    const filteredTasks = tasks.filter((t: any) => ids.tasks.includes(t.TaskID));
-    res.status(200).json({ clients: filteredClients, workers: filteredWorkers, tasks: filteredTasks });
+    const raw = await callLLM(provider, query, schemas, samples);
+    if (!raw) {
+      return res.status(422).json({ error: 'Could not parse a filter from the AI response' });
+    }
+    const { filter, errors } = parseSearchFilter(raw, schemaColumns(schemas));
+    if (filter.clauses.length === 0) {
+      return res.status(422).json({ error: 'The AI response contained no usable conditions', errors });
+    }
+    res.status(200).json({ filter, errors });
   } catch (error) {
     res.status(500).json({ error: 'Internal server error' });
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,26 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { API_BODY_LIMIT, ApiPayloadError, parseApiPayload, passes } from '../../utils/apiPayload';
+import { validateAllData } from '../../utils/validationUtils';
+
+// Runs the same checks as the app's validation summary. See "Headless API" in the README.
+
+export const config = {
+  api: { bodyParser: { sizeLimit: API_BODY_LIMIT } },
+};
+
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const payload = parseApiPayload(req.body);
+    const validation = validateAllData(payload);
+    res.status(200).json({ ok: passes(validation), validation, warnings: payload.warnings });
+  } catch (error) {
+    if (error instanceof ApiPayloadError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
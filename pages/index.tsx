@@ -3,142 +3,497 @@ import FileUploader from '../components/FileUploader';
 import DataGridEditable from '../components/DataGridEditable';
 import NaturalLanguageSearch from '../components/NaturalLanguageSearch';
 import AICorrectionPanel from '../components/AICorrectionPanel';
+import AutoFixPanel from '../components/AutoFixPanel';
 import AIRuleRecommendations from '../components/AIRuleRecommendations';
-import { GridColDef, GridRowsProp } from '@mui/x-data-grid';
-import { validateAllData, ValidationResult } from '../utils/validationUtils';
+import AllocationResults from '../components/AllocationResults';
+import AllocationDiagnostics from '../components/AllocationDiagnostics';
+import WorkspacePicker from '../components/WorkspacePicker';
+import RuleImportDialog from '../components/RuleImportDialog';
+import HistoryPanel from '../components/HistoryPanel';
+import SchemaEditor from '../components/SchemaEditor';
+import PhaseCalendarEditor from '../components/PhaseCalendarEditor';
+import ColumnMappingDialog from '../components/ColumnMappingDialog';
+import WorkbookUploader from '../components/WorkbookUploader';
+import WorkbookImportDialog from '../components/WorkbookImportDialog';
+import FileFormatOptions from '../components/FileFormatOptions';
+import MergePreviewDialog from '../components/MergePreviewDialog';
+import ValidationSummary from '../components/ValidationSummary';
+import { GridRowsProp } from '@mui/x-data-grid';
+import { listValidators, ValidationProgress, ValidationResult, Entity } from '../utils/validationUtils';
+import { createValidationClient, ValidationClient } from '../utils/validationClient';
+import { solveAllocation, AllocationResult } from '../utils/allocationSolver';
+import { diagnoseUnmetRequests } from '../utils/allocationDiagnostics';
+import {
+  Workspace,
+  createWorkspaceId,
+  saveWorkspace,
+  loadWorkspace,
+  deleteWorkspace,
+  getActiveWorkspaceId,
+  setActiveWorkspaceId,
+  serializeWorkspaceBundle,
+  parseWorkspaceBundle,
+  listWorkspaces,
+  WORKSPACE_VERSION,
+} from '../utils/workspaceUtils';
+import { DEFAULT_WEIGHTS, parseRulesFile, RuleImportResult } from '../utils/ruleImport';
+import { stripCorrectionMarkers } from '../utils/correctionUtils';
+import { canonicalRows } from '../utils/normalizeData';
+import { DEFAULT_PHASE_CALENDAR, PhaseCalendar } from '../utils/phaseCalendar';
+import { evaluateSearchFilter, SearchFilter } from '../utils/searchFilter';
+import {
+  CustomField,
+  buildSchemaRegistry,
+  schemaColumns,
+  gridColumns,
+  exportColumns,
+  findUnknownColumns,
+} from '../utils/entitySchema';
+import {
+  ColumnMapping,
+  PendingUpload,
+  headersOf,
+  suggestMapping,
+  prepareMapping,
+  isIdentityMapping,
+  applyMapping,
+  saveMapping,
+} from '../utils/columnMapping';
+import {
+  FileFormat,
+  DelimitedOptions,
+  DEFAULT_DELIMITED_OPTIONS,
+  FORMAT_LABELS,
+  serializeRows,
+  downloadFile,
+} from '../utils/fileFormats';
+import { SheetData, WorkbookImport, detectSheets, buildExportWorkbook } from '../utils/workbookUtils';
+import { MergeMode, PendingMerge, planMerge, describeMergePlan } from '../utils/mergeUtils';
+import { assignRowKeys, ROW_KEY_FIELD } from '../utils/rowKeys';
+import { SOURCE_FIELD } from '../utils/rowSource';
+import { historyReducer, createHistory, mergeRowsById, pickRowsById, DataSnapshot } from '../utils/historyUtils';
 import RuleBuilder, { Rule } from '../components/RuleBuilder';
 import PrioritizationSliders, { Weights } from '../components/PrioritizationSliders';
 import Snackbar from '@mui/material/Snackbar';
 import Alert from '@mui/material/Alert';
-import { Card, CardContent, Typography, Button, Box, Stack, Container, Divider } from '@mui/material';
-
-const entityColumns: Record<string, GridColDef[]> = {
-  clients: [
-    { field: 'ClientID', headerName: 'Client ID', width: 120 },
-    { field: 'ClientName', headerName: 'Client Name', width: 180 },
-    { field: 'PriorityLevel', headerName: 'Priority Level', width: 130 },
-    { field: 'RequestedTaskIDs', headerName: 'Requested Task IDs', width: 200 },
-    { field: 'GroupTag', headerName: 'Group Tag', width: 150 },
-    { field: 'AttributesJSON', headerName: 'Attributes JSON', width: 300 },
-  ],
-  workers: [
-    { field: 'WorkerID', headerName: 'Worker ID', width: 120 },
-    { field: 'WorkerName', headerName: 'Worker Name', width: 150 },
-    { field: 'Skills', headerName: 'Skills', width: 200 },
-    { field: 'AvailableSlots', headerName: 'Available Slots', width: 150 },
-    { field: 'MaxLoadPerPhase', headerName: 'Max Load Per Phase', width: 150 },
-    { field: 'WorkerGroup', headerName: 'Worker Group', width: 150 },
-    { field: 'QualificationLevel', headerName: 'Qualification Level', width: 150 },
-  ],
-  tasks: [
-    { field: 'TaskID', headerName: 'Task ID', width: 120 },
-    { field: 'TaskName', headerName: 'Task Name', width: 200 },
-    { field: 'Category', headerName: 'Category', width: 150 },
-    { field: 'Duration', headerName: 'Duration', width: 130 },
-    { field: 'RequiredSkills', headerName: 'Required Skills', width: 200 },
-    { field: 'PreferredPhases', headerName: 'Preferred Phases', width: 150 },
-    { field: 'MaxConcurrent', headerName: 'Max Concurrent', width: 130 },
-  ],
-};
+import { Card, CardContent, Typography, Button, Box, Stack, Container, Divider, TextField, MenuItem } from '@mui/material';
 
-function addRowIds(rows: any[], idField: string): GridRowsProp {
-  return rows.map((row) => ({ ...row, id: row[idField] || Math.random().toString(36).slice(2) }));
+// Sheets from one upload action: mapped ones wait in `ready` until every pending mapping is
+// confirmed or skipped, then land as a single history entry.
+interface UploadBatch {
+  label: string;
+  ready: Partial<Record<Entity, any[]>>;
+  pending: PendingUpload[];
 }
 
-const defaultWeights: Weights = {
-  priority: 5,
-  fulfillment: 5,
-  fairness: 5,
-  cost: 5,
-  duration: 5,
-  quality: 5,
-  efficiency: 5,
-};
-
 const HomePage: React.FC = () => {
-  const [clients, setClients] = useState<GridRowsProp>([]);
-  const [workers, setWorkers] = useState<GridRowsProp>([]);
-  const [tasks, setTasks] = useState<GridRowsProp>([]);
+  // Clients, workers, tasks and rules go through one undoable history.
+  const [history, dispatchHistory] = React.useReducer(historyReducer, undefined, () => createHistory());
+  const { clients, workers, tasks, rules } = history.present;
   const [validation, setValidation] = useState<ValidationResult | null>(null);
+  const [validationProgress, setValidationProgress] = useState<ValidationProgress | null>(null);
+  const validationClient = React.useRef<ValidationClient | null>(null);
   const [searchLoading, setSearchLoading] = useState(false);
   const [filtered, setFiltered] = useState<{ clients: GridRowsProp; workers: GridRowsProp; tasks: GridRowsProp } | null>(null);
-  const [rules, setRules] = useState<Rule[]>([]);
+  const [searchFilter, setSearchFilter] = useState<SearchFilter | null>(null);
   const [nlLoading, setNlLoading] = useState(false);
-  const [weights, setWeights] = useState<Weights>(defaultWeights);
+  const [weights, setWeights] = useState<Weights>(DEFAULT_WEIGHTS);
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
+  const [disabledValidators, setDisabledValidators] = useState<string[]>([]);
+  const [phaseCalendar, setPhaseCalendar] = useState<PhaseCalendar>(DEFAULT_PHASE_CALENDAR);
+  const [allocation, setAllocation] = useState<AllocationResult | null>(null);
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const [workspaceName, setWorkspaceName] = useState('Untitled workspace');
+  const [workspaceCreatedAt, setWorkspaceCreatedAt] = useState(() => new Date().toISOString());
+  const [workspaceRevision, setWorkspaceRevision] = useState(0);
+  const [ruleImport, setRuleImport] = useState<RuleImportResult | null>(null);
+  const [uploadBatch, setUploadBatch] = useState<UploadBatch | null>(null);
+  const [workbookImport, setWorkbookImport] = useState<WorkbookImport | null>(null);
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
+  const [fileOptions, setFileOptions] = useState<DelimitedOptions>(DEFAULT_DELIMITED_OPTIONS);
+  const [exportFormat, setExportFormat] = useState<FileFormat>('csv');
+  const rulesFileInput = React.useRef<HTMLInputElement>(null);
   const [snackbar, setSnackbar] = useState<{ open: boolean; message: string; severity: 'error' | 'warning' | 'info' | 'success' }>({
     open: false,
     message: '',
     severity: 'error',
   });
 
-  const handleDataParsed = (data: any[], fileType: 'clients' | 'workers' | 'tasks') => {
-    if (fileType === 'clients') setClients(addRowIds(data, 'ClientID'));
-    if (fileType === 'workers') setWorkers(addRowIds(data, 'WorkerID'));
-    if (fileType === 'tasks') setTasks(addRowIds(data, 'TaskID'));
+  // --- Schema ---
+  const schemas = React.useMemo(() => buildSchemaRegistry(customFields), [customFields]);
+  const queryColumns = React.useMemo(() => schemaColumns(schemas), [schemas]);
+  const columns = React.useMemo(
+    () => ({ clients: gridColumns(schemas.clients), workers: gridColumns(schemas.workers), tasks: gridColumns(schemas.tasks) }),
+    [schemas]
+  );
+  const unknownColumns = React.useMemo(
+    () => findUnknownColumns(schemas, {
+      clients: stripCorrectionMarkers(clients),
+      workers: stripCorrectionMarkers(workers),
+      tasks: stripCorrectionMarkers(tasks),
+    }),
+    [schemas, clients, workers, tasks]
+  );
+
+  // --- History ---
+  const commitChange = (label: string, update: Partial<DataSnapshot> | ((present: DataSnapshot) => Partial<DataSnapshot>)) => {
+    dispatchHistory({ type: 'commit', label, update });
+  };
+
+  const handleUndo = () => dispatchHistory({ type: 'undo' });
+  const handleRedo = () => dispatchHistory({ type: 'redo' });
+
+  React.useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      // Leave text fields (including grid cell editors) to the browser's own undo.
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const handleGridChange = (entity: 'clients' | 'workers' | 'tasks') => (rows: GridRowsProp) => {
+    commitChange(`Edit ${entity}`, present => ({ [entity]: mergeRowsById(present[entity], rows) }));
+  };
+
+  const handleRulesChange = (next: Rule[], label = 'Update rules') => {
+    commitChange(label, { rules: next });
+  };
+
+  const advanceUploadBatch = (batch: UploadBatch) => {
+    if (batch.pending.length > 0) {
+      setUploadBatch(batch);
+      return;
+    }
+    setUploadBatch(null);
+    const entities = Object.keys(batch.ready) as Entity[];
+    if (entities.length === 0) return;
+    const incoming: PendingMerge['incoming'] = {};
+    entities.forEach(entity => {
+      incoming[entity] = assignRowKeys(batch.ready[entity]!);
+    });
+    // Loading into empty grids needs no merge decision; otherwise the diff is reviewed first.
+    if (entities.some(entity => history.present[entity].length > 0)) {
+      setPendingMerge({ label: batch.label, incoming });
+    } else {
+      commitChange(batch.label, incoming);
+    }
+  };
+
+  const handleConfirmMerge = (modes: Partial<Record<Entity, MergeMode>>) => {
+    if (!pendingMerge) return;
+    const { label, incoming } = pendingMerge;
+    const entities = (Object.keys(incoming) as Entity[]).filter(entity => modes[entity]);
+    const plans = entities.map(entity => ({
+      entity,
+      plan: planMerge(history.present[entity], incoming[entity]!, modes[entity]!, schemas[entity].idField),
+    }));
+    setPendingMerge(null);
+    commitChange(
+      `${label}: ${plans.map(({ entity, plan }) => `${entity} ${plan.mode} ${describeMergePlan(plan)}`).join(', ')}`,
+      Object.fromEntries(plans.map(({ entity, plan }) => [entity, plan.rows]))
+    );
+  };
+
+  // Sheets whose headers already match the schema load directly; anything else goes through the mapping dialog.
+  const startUploadBatch = (label: string, uploads: { entity: Entity; fileName: string; rows: any[] }[]) => {
+    const batch: UploadBatch = { label, ready: {}, pending: [] };
+    uploads.forEach(({ entity, fileName, rows }) => {
+      const schema = schemas[entity];
+      const headers = headersOf(rows);
+      if (rows.length === 0 || isIdentityMapping(suggestMapping(headers, schema), schema)) {
+        batch.ready[entity] = rows;
+      } else {
+        batch.pending.push({ entity, fileName, rows, suggestion: prepareMapping(entity, headers, schema) });
+      }
+    });
+    advanceUploadBatch(batch);
+  };
+
+  const handleDataParsed = (data: any[], fileType: Entity, fileName: string, warnings: string[]) => {
+    if (warnings.length > 0) {
+      setSnackbar({ open: true, message: `${fileName}: ${warnings.join('; ')}`, severity: 'warning' });
+    }
+    startUploadBatch(`Upload ${fileType} (${data.length} rows)`, [{ entity: fileType, fileName, rows: data }]);
+  };
+
+  const handleConfirmMapping = (mapping: ColumnMapping, remember: boolean) => {
+    if (!uploadBatch) return;
+    const [current, ...rest] = uploadBatch.pending;
+    if (remember) saveMapping(current.entity, current.suggestion.headers, mapping);
+    advanceUploadBatch({
+      ...uploadBatch,
+      ready: { ...uploadBatch.ready, [current.entity]: applyMapping(current.rows, mapping) },
+      pending: rest,
+    });
+  };
+
+  // Cancelling a mapping skips that sheet; the rest of the batch still loads.
+  const handleSkipMapping = () => {
+    if (!uploadBatch) return;
+    advanceUploadBatch({ ...uploadBatch, pending: uploadBatch.pending.slice(1) });
+  };
+
+  const handleWorkbookParsed = (sheets: SheetData[], fileName: string) => {
+    if (sheets.length === 0) {
+      setSnackbar({ open: true, message: `${fileName} has no sheets with data.`, severity: 'error' });
+      return;
+    }
+    setWorkbookImport({ fileName, sheets, detections: detectSheets(sheets, schemas) });
+  };
+
+  const handleConfirmWorkbook = (assignments: Record<string, Entity>) => {
+    if (!workbookImport) return;
+    const uploads = workbookImport.sheets
+      .filter(sheet => assignments[sheet.name])
+      .map(sheet => ({ entity: assignments[sheet.name], fileName: `${workbookImport.fileName} › ${sheet.name}`, rows: sheet.rows }));
+    const summary = uploads.map(u => `${u.entity} ${u.rows.length}`).join(', ');
+    setWorkbookImport(null);
+    startUploadBatch(`Upload workbook ${workbookImport.fileName} (${summary})`, uploads);
   };
 
+  // --- Validation ---
   React.useEffect(() => {
-    setValidation(validateAllData({
+    const client = createValidationClient(
+      result => {
+        setValidation(result);
+        setValidationProgress(null);
+      },
+      setValidationProgress
+    );
+    validationClient.current = client;
+    return () => client.dispose();
+  }, []);
+
+  React.useEffect(() => {
+    // Passed as is, not copied: the validator only re-checks the arrays and rows that changed.
+    validationClient.current?.validate({ clients, workers, tasks, rules, schemas, calendar: phaseCalendar, disabledValidators });
+  }, [clients, workers, tasks, rules, schemas, phaseCalendar, disabledValidators]);
+
+  const handleRunAllocation = () => {
+    setAllocation(solveAllocation({
       clients: [...clients],
       workers: [...workers],
       tasks: [...tasks],
-      rules: [...rules],
+      rules,
+      weights,
+      calendar: phaseCalendar,
     }));
-  }, [clients, workers, tasks, rules]);
+  };
+
+  const diagnostics = React.useMemo(
+    () => allocation
+      ? diagnoseUnmetRequests({ clients: [...clients], workers: [...workers], tasks: [...tasks], rules, calendar: phaseCalendar }, allocation)
+      : [],
+    // Diagnostics describe the last allocation run, so they only refresh when it does.
+    [allocation]
+  );
 
   const handleSearch = async (query: string) => {
     setSearchLoading(true);
+    // fallback: simple string match
+    const textSearch = () => {
+      // Internal row keys and provenance aren't data, so they never match a search.
+      const filterRows = (rows: GridRowsProp) =>
+        rows.filter(row => Object.entries(row).some(([key, val]) =>
+          key !== ROW_KEY_FIELD && key !== SOURCE_FIELD && String(val).toLowerCase().includes(query.toLowerCase())
+        ));
+      setSearchFilter(null);
+      setFiltered({
+        clients: filterRows(clients),
+        workers: filterRows(workers),
+        tasks: filterRows(tasks),
+      });
+    };
     try {
       const res = await fetch('/api/nl-search', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           query,
-          clients,
-          workers,
-          tasks,
+          customFields,
+          samples: {
+            clients: clients.slice(0, 3),
+            workers: workers.slice(0, 3),
+            tasks: tasks.slice(0, 3),
+          },
         }),
       });
       if (res.ok) {
         const data = await res.json();
-        setFiltered({
-          clients: addRowIds(data.clients, 'ClientID'),
-          workers: addRowIds(data.workers, 'WorkerID'),
-          tasks: addRowIds(data.tasks, 'TaskID'),
-        });
+        setFiltered(null);
+        setSearchFilter(data.filter);
+        if (data.errors?.length) {
+          setSnackbar({ open: true, message: `Some conditions were dropped: ${data.errors.join('; ')}`, severity: 'warning' });
+        }
       } else {
-        // fallback: simple string match
-        const filterRows = (rows: GridRowsProp) =>
-          rows.filter(row => Object.values(row).some(val => String(val).toLowerCase().includes(query.toLowerCase())));
-        setFiltered({
-          clients: filterRows(clients),
-          workers: filterRows(workers),
-          tasks: filterRows(tasks),
-        });
+        textSearch();
       }
     } catch (e) {
-      // fallback: simple string match
-      const filterRows = (rows: GridRowsProp) =>
-        rows.filter(row => Object.values(row).some(val => String(val).toLowerCase().includes(query.toLowerCase())));
-      setFiltered({
-        clients: filterRows(clients),
-        workers: filterRows(workers),
-        tasks: filterRows(tasks),
-      });
+      textSearch();
     }
     setSearchLoading(false);
   };
 
-  const handleClearSearch = () => setFiltered(null);
+  const handleFilterChange = (next: SearchFilter) => {
+    setFiltered(null);
+    setSearchFilter(next);
+  };
+
+  const handleClearSearch = () => {
+    setFiltered(null);
+    setSearchFilter(null);
+  };
+
+  // --- Workspaces ---
+  const buildWorkspace = (id: string, createdAt: string): Workspace => ({
+    id,
+    name: workspaceName.trim() || 'Untitled workspace',
+    clients: [...clients],
+    workers: [...workers],
+    tasks: [...tasks],
+    rules,
+    weights,
+    customFields,
+    disabledValidators,
+    phaseCalendar,
+    metadata: { createdAt, updatedAt: createdAt, version: WORKSPACE_VERSION },
+  });
+
+  const persistWorkspace = (workspace: Workspace, quiet = false) => {
+    try {
+      saveWorkspace(workspace);
+      setWorkspaceId(workspace.id);
+      setActiveWorkspaceId(workspace.id);
+      setWorkspaceRevision(r => r + 1);
+      if (!quiet) setSnackbar({ open: true, message: `Workspace '${workspace.name}' saved.`, severity: 'success' });
+    } catch (e) {
+      setSnackbar({ open: true, message: `Could not save workspace: ${(e as Error).message}`, severity: 'error' });
+    }
+  };
+
+  const applyWorkspace = (workspace: Workspace) => {
+    // Switching scenarios starts a fresh history so undo can't pull in another workspace's data.
+    dispatchHistory({
+      type: 'reset',
+      present: { clients: workspace.clients, workers: workspace.workers, tasks: workspace.tasks, rules: workspace.rules },
+    });
+    setWeights(workspace.weights);
+    setCustomFields(workspace.customFields || []);
+    setDisabledValidators(workspace.disabledValidators || []);
+    setPhaseCalendar(workspace.phaseCalendar || DEFAULT_PHASE_CALENDAR);
+    setWorkspaceName(workspace.name);
+    setWorkspaceCreatedAt(workspace.metadata.createdAt);
+    setWorkspaceId(workspace.id);
+    setActiveWorkspaceId(workspace.id);
+    setFiltered(null);
+    setSearchFilter(null);
+    setAllocation(null);
+  };
+
+  const handleSaveWorkspace = () => {
+    persistWorkspace(buildWorkspace(workspaceId || createWorkspaceId(), workspaceCreatedAt));
+  };
+
+  const handleSaveWorkspaceAsNew = () => {
+    const createdAt = new Date().toISOString();
+    setWorkspaceCreatedAt(createdAt);
+    persistWorkspace(buildWorkspace(createWorkspaceId(), createdAt));
+  };
+
+  const handleSelectWorkspace = (id: string) => {
+    const workspace = loadWorkspace(id);
+    if (workspace) {
+      applyWorkspace(workspace);
+    } else {
+      setSnackbar({ open: true, message: 'Workspace could not be loaded.', severity: 'error' });
+    }
+  };
+
+  const handleNewWorkspace = () => {
+    applyWorkspace({
+      id: '',
+      name: 'Untitled workspace',
+      clients: [],
+      workers: [],
+      tasks: [],
+      rules: [],
+      weights: DEFAULT_WEIGHTS,
+      metadata: { createdAt: new Date().toISOString(), updatedAt: '', version: WORKSPACE_VERSION },
+    });
+    setWorkspaceId(null);
+    setActiveWorkspaceId(null);
+  };
+
+  const handleDeleteWorkspace = () => {
+    if (!workspaceId) return;
+    deleteWorkspace(workspaceId);
+    setWorkspaceId(null);
+    setWorkspaceRevision(r => r + 1);
+    setSnackbar({ open: true, message: `Workspace '${workspaceName}' deleted.`, severity: 'info' });
+  };
+
+  const handleDownloadWorkspace = () => {
+    const workspace = buildWorkspace(workspaceId || createWorkspaceId(), workspaceCreatedAt);
+    const blob = new Blob([serializeWorkspaceBundle(workspace)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${workspace.name.replace(/[^\w-]+/g, '_')}.workspace.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleUploadWorkspace = async (file: File) => {
+    try {
+      const workspace = parseWorkspaceBundle(await file.text());
+      // Keep an existing local workspace intact when the bundle was exported from it.
+      if (listWorkspaces().some(ws => ws.id === workspace.id)) workspace.id = createWorkspaceId();
+      applyWorkspace(workspace);
+      persistWorkspace(workspace);
+    } catch (e) {
+      setSnackbar({ open: true, message: (e as Error).message, severity: 'error' });
+    }
+  };
+
+  React.useEffect(() => {
+    const activeId = getActiveWorkspaceId();
+    const workspace = activeId ? loadWorkspace(activeId) : null;
+    if (workspace) applyWorkspace(workspace);
+  }, []);
+
+  // Autosave the active workspace so a refresh doesn't lose edits.
+  React.useEffect(() => {
+    if (!workspaceId) return;
+    const timer = setTimeout(() => persistWorkspace(buildWorkspace(workspaceId, workspaceCreatedAt), true), 1000);
+    return () => clearTimeout(timer);
+  }, [clients, workers, tasks, rules, weights, customFields, disabledValidators, phaseCalendar, workspaceName]);
 
-  const showClients = filtered ? filtered.clients : clients;
-  const showWorkers = filtered ? filtered.workers : workers;
-  const showTasks = filtered ? filtered.tasks : tasks;
+  // A compiled search filter is re-run on every change; text-search results only pick row ids.
+  // Either way, edits and undo/redo show through the filter.
+  const filterMatches = React.useMemo(
+    () => (searchFilter ? evaluateSearchFilter(searchFilter, { clients, workers, tasks }, schemas, phaseCalendar) : null),
+    [searchFilter, clients, workers, tasks, schemas, phaseCalendar]
+  );
+  const showClients = filterMatches ? filterMatches.clients : filtered ? pickRowsById(clients, filtered.clients) : clients;
+  const showWorkers = filterMatches ? filterMatches.workers : filtered ? pickRowsById(workers, filtered.workers) : workers;
+  const showTasks = filterMatches ? filterMatches.tasks : filtered ? pickRowsById(tasks, filtered.tasks) : tasks;
 
   const handleExportRules = () => {
     const exportObj = {
       rules,
       weights,
+      phaseCalendar,
       metadata: {
         exportedAt: new Date().toISOString(),
         totalClients: clients.length,
@@ -157,37 +512,18 @@ const HomePage: React.FC = () => {
   };
 
   const handleExportData = () => {
-    // Export cleaned CSV files
-    const exportCSV = (data: GridRowsProp, filename: string) => {
-      if (data.length === 0) return;
-      
-      const headers = Object.keys(data[0]).filter(key => key !== 'id');
-      const csvContent = [
-        headers.join(','),
-        ...data.map(row => 
-          headers.map(header => {
-            const value = row[header];
-            // Escape commas and quotes in CSV
-            if (typeof value === 'string' && (value.includes(',') || value.includes('"'))) {
-              return `"${value.replace(/"/g, '""')}"`;
-            }
-            return value;
-          }).join(',')
-        )
-      ].join('\n');
-      
-      const blob = new Blob([csvContent], { type: 'text/csv' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = filename;
-      a.click();
-      URL.revokeObjectURL(url);
+    // Every format goes through the same serializer the importer understands.
+    const exportEntity = (entity: Entity, rows: GridRowsProp) => {
+      if (rows.length === 0) return;
+      const data = canonicalRows(entity, stripCorrectionMarkers(rows), schemas[entity], phaseCalendar);
+      const delimiter = fileOptions.delimiter === 'auto' ? ',' : fileOptions.delimiter;
+      const content = serializeRows(data, exportColumns(schemas[entity], data), exportFormat, delimiter);
+      downloadFile(content, `${entity}_cleaned.${exportFormat}`, exportFormat);
     };
 
-    exportCSV(clients, 'clients_cleaned.csv');
-    exportCSV(workers, 'workers_cleaned.csv');
-    exportCSV(tasks, 'tasks_cleaned.csv');
+    exportEntity('clients', clients);
+    exportEntity('workers', workers);
+    exportEntity('tasks', tasks);
     
     setSnackbar({ 
       open: true, 
@@ -196,8 +532,47 @@ const HomePage: React.FC = () => {
     });
   };
 
+  const handleExportWorkbook = () => {
+    const bookType = exportFormat === 'ods' ? 'ods' : 'xlsx';
+    downloadFile(buildExportWorkbook({ clients, workers, tasks, rules }, schemas, bookType, phaseCalendar), `data_alchemist_export.${bookType}`, bookType);
+  };
+
+  const handleRulesFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setRuleImport(parseRulesFile(await file.text(), { clients: [...clients], workers: [...workers], tasks: [...tasks] }));
+    } catch (err) {
+      setSnackbar({ open: true, message: (err as Error).message, severity: 'error' });
+    }
+  };
+
+  const handleConfirmRuleImport = (
+    imported: Rule[],
+    importedWeights: Weights | null,
+    mode: 'replace' | 'append',
+    importedCalendar: PhaseCalendar | null
+  ) => {
+    if (imported.length > 0) {
+      commitChange(
+        `Import ${imported.length} rule(s) (${mode})`,
+        present => ({ rules: mode === 'replace' ? imported : [...present.rules, ...imported] })
+      );
+    }
+    if (importedWeights) setWeights(importedWeights);
+    if (importedCalendar) setPhaseCalendar(importedCalendar);
+    setRuleImport(null);
+    const extras = [importedWeights && 'weights', importedCalendar && 'phase calendar'].filter(Boolean);
+    setSnackbar({
+      open: true,
+      message: `Imported ${imported.length} rule(s)${extras.length > 0 ? ` and ${extras.join(' and ')}` : ''}.`,
+      severity: 'success',
+    });
+  };
+
   const handleAddRule = (rule: any) => {
-    setRules(prev => [...prev, rule]);
+    commitChange(`Add AI-recommended ${rule.type} rule`, present => ({ rules: [...present.rules, rule] }));
   };
 
   const handleAddRuleFromNL = async (description: string) => {
@@ -211,12 +586,13 @@ const HomePage: React.FC = () => {
           clients: [...clients],
           workers: [...workers],
           tasks: [...tasks],
+          customFields,
         }),
       });
       if (res.ok) {
         const data = await res.json();
         if (data.rule) {
-          setRules(prev => [...prev, data.rule]);
+          commitChange(`Add ${data.rule.type} rule from description`, present => ({ rules: [...present.rules, data.rule] }));
         }
       } else {
         setSnackbar({ open: true, message: 'Could not parse rule from AI response.', severity: 'error' });
@@ -232,17 +608,57 @@ const HomePage: React.FC = () => {
       <Typography variant="h3" gutterBottom>Data Alchemist: Resource-Allocation Configurator</Typography>
       <Card sx={{ mb: 3 }}>
         <CardContent>
+          <WorkspacePicker
+            activeId={workspaceId}
+            name={workspaceName}
+            revision={workspaceRevision}
+            onNameChange={setWorkspaceName}
+            onSelect={handleSelectWorkspace}
+            onSave={handleSaveWorkspace}
+            onSaveAsNew={handleSaveWorkspaceAsNew}
+            onNew={handleNewWorkspace}
+            onDelete={handleDeleteWorkspace}
+            onDownload={handleDownloadWorkspace}
+            onUpload={handleUploadWorkspace}
+          />
+        </CardContent>
+      </Card>
+      <Card sx={{ mb: 3 }}>
+        <CardContent>
+          <HistoryPanel past={history.past} future={history.future} onUndo={handleUndo} onRedo={handleRedo} />
+        </CardContent>
+      </Card>
+      <Card sx={{ mb: 3 }}>
+        <CardContent>
+          <SchemaEditor customFields={customFields} unknownColumns={unknownColumns} onChange={setCustomFields} />
+        </CardContent>
+      </Card>
+      <Card sx={{ mb: 3 }}>
+        <CardContent>
+          <PhaseCalendarEditor calendar={phaseCalendar} onChange={setPhaseCalendar} />
+        </CardContent>
+      </Card>
+      <Card sx={{ mb: 3 }}>
+        <CardContent>
+          <FileFormatOptions options={fileOptions} onChange={setFileOptions} />
           <Stack direction="row" spacing={2} mb={2}>
-            <FileUploader label="Upload Clients" fileType="clients" onDataParsed={handleDataParsed} />
-            <FileUploader label="Upload Workers" fileType="workers" onDataParsed={handleDataParsed} />
-            <FileUploader label="Upload Tasks" fileType="tasks" onDataParsed={handleDataParsed} />
+            <FileUploader label="Upload Clients" fileType="clients" onDataParsed={handleDataParsed} options={fileOptions} />
+            <FileUploader label="Upload Workers" fileType="workers" onDataParsed={handleDataParsed} options={fileOptions} />
+            <FileUploader label="Upload Tasks" fileType="tasks" onDataParsed={handleDataParsed} options={fileOptions} />
           </Stack>
+          <WorkbookUploader label="Or upload one workbook (XLSX, one sheet per entity)" onSheetsParsed={handleWorkbookParsed} />
         </CardContent>
       </Card>
       <Card sx={{ mb: 3 }}>
         <CardContent>
-          <NaturalLanguageSearch onSearch={handleSearch} loading={searchLoading} />
-          {filtered && (
+          <NaturalLanguageSearch
+            onSearch={handleSearch}
+            loading={searchLoading}
+            filter={searchFilter}
+            onFilterChange={handleFilterChange}
+            columns={queryColumns}
+          />
+          {(filtered || searchFilter) && (
             <Button variant="outlined" color="secondary" onClick={handleClearSearch} sx={{ mb: 2 }}>Clear Search</Button>
           )}
         </CardContent>
@@ -253,7 +669,10 @@ const HomePage: React.FC = () => {
             tasks={[...tasks]}
             workers={[...workers]}
             clients={[...clients]}
-            onRulesChange={setRules}
+            rules={rules}
+            calendar={phaseCalendar}
+            ruleErrors={validation?.ruleErrors}
+            onRulesChange={handleRulesChange}
             onAddRuleFromNL={handleAddRuleFromNL}
             nlLoading={nlLoading}
           />
@@ -265,15 +684,35 @@ const HomePage: React.FC = () => {
         </CardContent>
       </Card>
 
+      <AllocationResults
+        result={allocation}
+        onRun={handleRunAllocation}
+        disabled={clients.length === 0 || workers.length === 0 || tasks.length === 0}
+      />
+
+      <AutoFixPanel
+        validation={validation}
+        clients={clients}
+        workers={workers}
+        tasks={tasks}
+        schemas={schemas}
+        calendar={phaseCalendar}
+        rules={rules}
+        disabledValidators={disabledValidators}
+        onDataChange={(update, label) => commitChange(label, update)}
+      />
+
       {/* AI-Powered Features */}
       <AICorrectionPanel
         validation={validation}
         clients={clients}
         workers={workers}
         tasks={tasks}
-        onClientsChange={setClients}
-        onWorkersChange={setWorkers}
-        onTasksChange={setTasks}
+        schemas={schemas}
+        calendar={phaseCalendar}
+        rules={rules}
+        disabledValidators={disabledValidators}
+        onDataChange={(update, label) => commitChange(label, update)}
       />
 
       <AIRuleRecommendations
@@ -281,6 +720,7 @@ const HomePage: React.FC = () => {
         workers={workers}
         tasks={tasks}
         existingRules={rules}
+        schemas={schemas}
         onAddRule={handleAddRule}
       />
 
@@ -294,13 +734,33 @@ const HomePage: React.FC = () => {
             Export your validated and cleaned data along with business rules for the next stage.
           </Typography>
           <Stack direction="row" spacing={2}>
+            <TextField
+              select
+              size="small"
+              label="Format"
+              value={exportFormat}
+              onChange={e => setExportFormat(e.target.value as FileFormat)}
+              sx={{ minWidth: 180 }}
+            >
+              {(Object.keys(FORMAT_LABELS) as FileFormat[]).map(format => (
+                <MenuItem key={format} value={format}>{FORMAT_LABELS[format]}</MenuItem>
+              ))}
+            </TextField>
             <Button 
               variant="contained" 
               color="primary" 
               onClick={handleExportData}
               disabled={clients.length === 0 && workers.length === 0 && tasks.length === 0}
             >
-              Export Data as CSV
+              Export Data as {exportFormat.toUpperCase()}
+            </Button>
+            <Button
+              variant="contained"
+              color="primary"
+              onClick={handleExportWorkbook}
+              disabled={clients.length === 0 && workers.length === 0 && tasks.length === 0}
+            >
+              Export Workbook ({exportFormat === 'ods' ? 'ODS' : 'XLSX'})
             </Button>
             <Button 
               variant="contained" 
@@ -310,6 +770,14 @@ const HomePage: React.FC = () => {
             >
               Export Rules as JSON
             </Button>
+            <Button
+              variant="outlined"
+              color="secondary"
+              onClick={() => rulesFileInput.current?.click()}
+            >
+              Import Rules JSON
+            </Button>
+            <input ref={rulesFileInput} type="file" accept=".json" hidden onChange={handleRulesFileChange} />
           </Stack>
         </CardContent>
       </Card>
@@ -320,9 +788,9 @@ const HomePage: React.FC = () => {
           <CardContent>
             <Typography variant="h5" gutterBottom>Clients</Typography>
             <DataGridEditable
-              columns={entityColumns.clients}
+              columns={columns.clients}
               rows={showClients}
-              onRowsChange={setClients}
+              onRowsChange={handleGridChange('clients')}
               errors={validation?.errors.clients}
             />
           </CardContent>
@@ -333,9 +801,9 @@ const HomePage: React.FC = () => {
           <CardContent>
             <Typography variant="h5" gutterBottom>Workers</Typography>
             <DataGridEditable
-              columns={entityColumns.workers}
+              columns={columns.workers}
               rows={showWorkers}
-              onRowsChange={setWorkers}
+              onRowsChange={handleGridChange('workers')}
               errors={validation?.errors.workers}
             />
           </CardContent>
@@ -346,44 +814,55 @@ const HomePage: React.FC = () => {
           <CardContent>
             <Typography variant="h5" gutterBottom>Tasks</Typography>
             <DataGridEditable
-              columns={entityColumns.tasks}
+              columns={columns.tasks}
               rows={showTasks}
-              onRowsChange={setTasks}
+              onRowsChange={handleGridChange('tasks')}
               errors={validation?.errors.tasks}
             />
           </CardContent>
         </Card>
       )}
 
-      {/* Enhanced Validation Summary */}
-      {validation && (validation.summary.length > 0 || validation.suggestions.length > 0) && (
-        <Card sx={{ mb: 3, background: '#fffbe6', border: '1px solid #ffe58f' }}>
-          <CardContent>
-            <Typography variant="h6" gutterBottom>Validation Summary</Typography>
-            {validation.summary.length > 0 && (
-              <Box sx={{ mb: 2 }}>
-                <Typography variant="subtitle2" color="error" gutterBottom>
-                  Issues Found ({validation.summary.length}):
-                </Typography>
-                <ul>
-                  {validation.summary.map((msg, i) => <li key={i}>{msg}</li>)}
-                </ul>
-              </Box>
-            )}
-            {validation.suggestions.length > 0 && (
-              <Box>
-                <Typography variant="subtitle2" color="primary" gutterBottom>
-                  Suggestions ({validation.suggestions.length}):
-                </Typography>
-                <ul>
-                  {validation.suggestions.map((msg, i) => <li key={i}>{msg}</li>)}
-                </ul>
-              </Box>
-            )}
-          </CardContent>
-        </Card>
+      {validation && (clients.length > 0 || workers.length > 0 || tasks.length > 0 || rules.length > 0) && (
+        <ValidationSummary
+          validation={validation}
+          progress={validationProgress}
+          validators={listValidators()}
+          disabled={disabledValidators}
+          onDisabledChange={setDisabledValidators}
+        />
       )}
 
+      <AllocationDiagnostics diagnostics={diagnostics} rules={rules} />
+
+      <WorkbookImportDialog
+        workbook={workbookImport}
+        onCancel={() => setWorkbookImport(null)}
+        onConfirm={handleConfirmWorkbook}
+      />
+
+      <MergePreviewDialog
+        merge={pendingMerge}
+        current={{ clients, workers, tasks }}
+        schemas={schemas}
+        onCancel={() => setPendingMerge(null)}
+        onConfirm={handleConfirmMerge}
+      />
+
+      <ColumnMappingDialog
+        upload={uploadBatch?.pending[0] ?? null}
+        schemas={schemas}
+        onCancel={handleSkipMapping}
+        onConfirm={handleConfirmMapping}
+      />
+
+      <RuleImportDialog
+        result={ruleImport}
+        existingRuleCount={rules.length}
+        onCancel={() => setRuleImport(null)}
+        onConfirm={handleConfirmRuleImport}
+      />
+
       <Snackbar open={snackbar.open} autoHideDuration={6000} onClose={() => setSnackbar({ ...snackbar, open: false })}>
         <Alert onClose={() => setSnackbar({ ...snackbar, open: false })} severity={snackbar.severity} sx={{ width: '100%' }}>
           {snackbar.message}
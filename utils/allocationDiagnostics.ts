@@ -0,0 +1,243 @@
+import type { Rule } from '../components/RuleBuilder';
+import type { Entity } from './validationUtils';
+import {
+  AllocationResult,
+  buildAllocationModel,
+  candidateRuns,
+  effectiveCapacity,
+  intersect,
+  qualifiesFor,
+} from './allocationSolver';
+import { normalizeData } from './normalizeData';
+import type { PhaseCalendar } from './phaseCalendar';
+import { rowKeyOf } from './rowKeys';
+import { rowNumber } from './rowSource';
+import { phaseSlotSaturation } from './validators';
+
+export type BlockerCode =
+  | 'unknownTask'
+  | 'noSkillMatch'
+  | 'phaseWindow'
+  | 'coRun'
+  | 'availability'
+  | 'slotRestriction'
+  | 'capacity'
+  | 'loadLimit'
+  | 'maxConcurrent'
+  | 'phaseSaturation'
+  | 'unexplained';
+
+export interface RowReference {
+  entity: Entity;
+  // Internal row key (see rowKeys.ts).
+  key: string;
+  // Display position of the row, e.g. "4 (workers.csv line 5)".
+  rowNumber: string;
+  id: string;
+  field?: string;
+}
+
+export interface Blocker {
+  code: BlockerCode;
+  message: string;
+  rows: RowReference[];
+  ruleIndices: number[];
+}
+
+export interface UnmetRequestDiagnostic {
+  clientId: string;
+  taskId: string;
+  blockers: Blocker[];
+}
+
+interface DiagnoseArgs {
+  clients: any[];
+  workers: any[];
+  tasks: any[];
+  rules?: Rule[];
+  calendar?: PhaseCalendar;
+}
+
+// Every row carrying the ID, so a duplicated ID points at each of its rows.
+function rowRef(entity: Entity, rows: any[], idField: string, id: string, field?: string): RowReference[] {
+  const refs: RowReference[] = [];
+  rows.forEach((row, idx) => {
+    if (String(row?.[idField] ?? '').trim() === id) refs.push({ entity, key: rowKeyOf(row, idx), rowNumber: rowNumber(row, idx), id, field });
+  });
+  return refs;
+}
+
+function compact(refs: RowReference[][]): RowReference[] {
+  const seen = new Set<string>();
+  return refs.flat().filter(ref => {
+    const id = `${ref.entity}:${ref.key}:${ref.field ?? ''}`;
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+}
+
+// Traces each unmet client request back to the rows and rules that made it infeasible.
+// Checks run in the same order the solver applies its constraints, so the first blocker
+// is usually the one to fix.
+export function diagnoseUnmetRequests({ clients, workers, tasks, rules = [], calendar }: DiagnoseArgs, result: AllocationResult): UnmetRequestDiagnostic[] {
+  const model = buildAllocationModel({ clients, workers, tasks, rules, calendar });
+  const workerRef = (id: string, field?: string) => rowRef('workers', workers, 'WorkerID', id, field);
+  const taskRef = (id: string, field?: string) => rowRef('tasks', tasks, 'TaskID', id, field);
+
+  // Phase demand vs. supply, counted exactly as the phase-saturation validator does.
+  const saturation = phaseSlotSaturation(normalizeData({ clients, workers, tasks }, undefined, calendar));
+
+  return result.unassigned.map(({ clientId, taskId, reason }) => {
+    const blockers: Blocker[] = [];
+    const clientRef = rowRef('clients', clients, 'ClientID', clientId, 'RequestedTaskIDs');
+    const task = model.tasks.get(taskId);
+
+    if (!task) {
+      blockers.push({
+        code: 'unknownTask',
+        message: `Client ${clientId} requests ${taskId}, which is not in the tasks data`,
+        rows: compact([clientRef]),
+        ruleIndices: [],
+      });
+      return { clientId, taskId, blockers };
+    }
+
+    // 1. Skills
+    const qualified = model.workers.filter(worker => qualifiesFor(worker, task));
+    if (qualified.length === 0) {
+      const missingEverywhere = task.skills.filter(skill => !model.workers.some(worker => worker.skills.has(skill)));
+      const partial = model.workers.filter(worker => task.skills.some(skill => worker.skills.has(skill)));
+      const details = missingEverywhere.length > 0
+        ? `no worker has ${missingEverywhere.join(', ')}`
+        : `closest matches: ${partial.map(worker => `${worker.id} (lacks ${task.skills.filter(s => !worker.skills.has(s)).join(', ')})`).join('; ')}`;
+      blockers.push({
+        code: 'noSkillMatch',
+        message: `No worker holds all required skills (${task.skills.join(', ')}); ${details}`,
+        rows: compact([taskRef(taskId, 'RequiredSkills'), ...partial.map(worker => workerRef(worker.id, 'Skills'))]),
+        ruleIndices: [],
+      });
+    }
+
+    // 2. Phase windows
+    let phases = task.phases;
+    const window = model.phaseWindows.get(taskId);
+    if (window) {
+      const allowed = intersect(phases, window.phases);
+      if (allowed.length === 0) {
+        blockers.push({
+          code: 'phaseWindow',
+          message: `Preferred phases (${task.phases.join(', ')}) do not overlap the phase window (${window.phases.join(', ')})`,
+          rows: compact([taskRef(taskId, 'PreferredPhases')]),
+          ruleIndices: window.ruleIndices,
+        });
+      }
+      phases = allowed;
+    }
+
+    // 3. Co-run anchoring
+    const coRun = model.coRunGroups.get(taskId);
+    if (coRun) {
+      const partner = result.assignments.find(a => a.taskId !== taskId && coRun.tasks.has(a.taskId));
+      if (partner && !phases.includes(partner.phase)) {
+        blockers.push({
+          code: 'coRun',
+          message: `Co-run partner ${partner.taskId} runs in phase ${partner.phase}, which this task cannot use`,
+          rows: compact([taskRef(taskId, 'PreferredPhases'), taskRef(partner.taskId)]),
+          ruleIndices: coRun.ruleIndices,
+        });
+      }
+      if (partner) phases = intersect(phases, [partner.phase]);
+    }
+
+    if (qualified.length > 0 && phases.length > 0) {
+      // 4. Availability: a run needs Duration consecutive phases the worker is available in
+      const runsOf = (worker: typeof qualified[number]) => candidateRuns(model, task, phases, worker);
+      const available = qualified.filter(worker => runsOf(worker).length > 0);
+      const needs = task.duration > 1 ? `${task.duration} consecutive phases starting in phases` : 'phases';
+      if (available.length === 0) {
+        const restricted = qualified.filter(worker => candidateRuns(model, task, phases, worker, worker.slots).length > 0);
+        if (restricted.length > 0) {
+          blockers.push({
+            code: 'slotRestriction',
+            message: `Qualified workers ${restricted.map(w => w.id).join(', ')} are limited to their group's common slots, which leave no room for ${needs} ${phases.join(', ')}`,
+            rows: compact(restricted.map(worker => workerRef(worker.id, 'AvailableSlots'))),
+            ruleIndices: [...new Set(restricted.map(worker => model.groupSlots.get(worker.group)!.ruleIndex))],
+          });
+        } else {
+          blockers.push({
+            code: 'availability',
+            message: `Qualified workers (${qualified.map(w => w.id).join(', ')}) are not available for ${needs} ${phases.join(', ')}`,
+            rows: compact([
+              taskRef(taskId, task.duration > 1 ? 'Duration' : 'PreferredPhases'),
+              ...qualified.map(worker => workerRef(worker.id, 'AvailableSlots')),
+            ]),
+            ruleIndices: [],
+          });
+        }
+      } else {
+        // 5. Capacity and concurrency at the end of the allocation run
+        const runPhases = [...new Set(available.flatMap(worker => runsOf(worker).flat()))].sort((a, b) => a - b);
+        const concurrencyFull = runPhases.filter(phase =>
+          result.assignments.filter(a => a.taskId === taskId && a.phases.includes(phase)).length >= task.maxConcurrent
+        );
+        if (concurrencyFull.length > 0) {
+          blockers.push({
+            code: 'maxConcurrent',
+            message: `Task already runs ${task.maxConcurrent} time(s) in phase(s) ${concurrencyFull.join(', ')}, its MaxConcurrent limit`,
+            rows: compact([taskRef(taskId, 'MaxConcurrent')]),
+            ruleIndices: [],
+          });
+        }
+        // Full: every run the worker could take has a phase where it is at capacity.
+        const full = available.filter(worker => {
+          const open = runsOf(worker).filter(run => !run.some(phase => concurrencyFull.includes(phase)));
+          return open.length > 0 && open.every(run => run.some(phase => (result.workerLoad[worker.id]?.[phase] || 0) >= effectiveCapacity(model, worker)));
+        });
+        const limited = full.filter(worker => {
+          const limit = model.groupLoadLimits.get(worker.group);
+          return limit !== undefined && limit.limit < worker.maxLoad;
+        });
+        if (limited.length > 0) {
+          blockers.push({
+            code: 'loadLimit',
+            message: `Load limit rules cap ${limited.map(w => `${w.id} at ${effectiveCapacity(model, w)}`).join(', ')} per phase, below their MaxLoadPerPhase`,
+            rows: compact(limited.map(worker => workerRef(worker.id, 'MaxLoadPerPhase'))),
+            ruleIndices: [...new Set(limited.map(worker => model.groupLoadLimits.get(worker.group)!.ruleIndex))],
+          });
+        }
+        const atMaxLoad = full.filter(worker => !limited.includes(worker));
+        if (atMaxLoad.length > 0) {
+          const occupying = result.assignments.filter(a =>
+            atMaxLoad.some(worker => worker.id === a.workerId) && a.phases.some(phase => runPhases.includes(phase))
+          );
+          blockers.push({
+            code: 'capacity',
+            message: `${atMaxLoad.map(w => w.id).join(', ')} reached MaxLoadPerPhase in every run of the task they could take, starting in phases ${phases.join(', ')} (busy with ${[...new Set(occupying.map(a => a.taskId))].join(', ') || 'other work'})`,
+            rows: compact([
+              ...atMaxLoad.map(worker => workerRef(worker.id, 'MaxLoadPerPhase')),
+              ...[...new Set(occupying.map(a => a.taskId))].map(id => taskRef(id)),
+            ]),
+            ruleIndices: [],
+          });
+        }
+      }
+    }
+
+    // 6. Overall phase saturation
+    const saturated = task.phases.filter(phase => saturation[phase] && saturation[phase].used > saturation[phase].total);
+    if (saturated.length > 0 && saturated.length === task.phases.length) {
+      blockers.push({
+        code: 'phaseSaturation',
+        message: `Every preferred phase is oversaturated: ${saturated.map(p => `phase ${p} needs ${saturation[p].used} slots, has ${saturation[p].total}`).join('; ')}`,
+        rows: compact([taskRef(taskId, 'PreferredPhases')]),
+        ruleIndices: [],
+      });
+    }
+
+    if (blockers.length === 0) {
+      blockers.push({ code: 'unexplained', message: reason, rows: compact([clientRef, taskRef(taskId)]), ruleIndices: [] });
+    }
+    return { clientId, taskId, blockers };
+  });
+}
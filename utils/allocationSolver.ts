@@ -0,0 +1,374 @@
+import type { Rule } from '../components/RuleBuilder';
+import type { Weights } from '../components/PrioritizationSliders';
+import { normalizeData } from './normalizeData';
+import { activePhases, PhaseCalendar } from './phaseCalendar';
+import { resolveRules } from './ruleUtils';
+
+export interface Assignment {
+  clientId: string;
+  taskId: string;
+  workerId: string;
+  // First phase of the run; the task occupies `phases`, Duration consecutive phases from here.
+  phase: number;
+  phases: number[];
+  score: number;
+}
+
+export interface UnassignedRequest {
+  clientId: string;
+  taskId: string;
+  reason: string;
+}
+
+export interface AllocationResult {
+  assignments: Assignment[];
+  unassigned: UnassignedRequest[];
+  workerLoad: Record<string, Record<number, number>>;
+  warnings: string[];
+  stats: {
+    requested: number;
+    assigned: number;
+    fulfillmentRate: number;
+  };
+}
+
+interface SolveAllocationArgs {
+  clients: any[];
+  workers: any[];
+  tasks: any[];
+  rules?: Rule[];
+  weights: Weights;
+  // Without a calendar every phase a worker lists is schedulable.
+  calendar?: PhaseCalendar;
+}
+
+export interface SolverWorker {
+  id: string;
+  group: string;
+  skills: Set<string>;
+  slots: number[];
+  maxLoad: number;
+  qualification: number;
+}
+
+export interface SolverTask {
+  id: string;
+  skills: string[];
+  phases: number[];
+  duration: number;
+  maxConcurrent: number;
+}
+
+interface SolverRequest {
+  clientId: string;
+  taskId: string;
+  priorityLevel: number;
+}
+
+// Normalized rows plus the constraints derived from the rule list. Each constraint remembers
+// which rules (by index in the user's list) produced it so results can be traced back.
+export interface AllocationModel {
+  workers: SolverWorker[];
+  tasks: Map<string, SolverTask>;
+  allPhases: number[];
+  phaseWindows: Map<string, { phases: number[]; ruleIndices: number[] }>;
+  groupLoadLimits: Map<string, { limit: number; ruleIndex: number }>;
+  groupSlots: Map<string, { slots: number[]; ruleIndex: number }>;
+  coRunGroups: Map<string, { tasks: Set<string>; ruleIndices: number[] }>;
+  warnings: string[];
+}
+
+const QUALIFICATION_LEVELS: Record<string, number> = {
+  junior: 1,
+  mid: 2,
+  intermediate: 2,
+  senior: 3,
+  lead: 4,
+  expert: 4,
+  principal: 5,
+};
+
+function qualificationScore(value: any): number {
+  const numeric = Number(value);
+  if (value !== '' && !isNaN(numeric)) return Math.min(numeric, 5) / 5;
+  return (QUALIFICATION_LEVELS[String(value || '').trim().toLowerCase()] || 1) / 5;
+}
+
+export function intersect(a: number[], b: number[]): number[] {
+  return a.filter(x => b.includes(x));
+}
+
+export function buildAllocationModel({ clients, workers, tasks, rules = [], calendar }: Omit<SolveAllocationArgs, 'weights'>): AllocationModel {
+  const warnings: string[] = [];
+
+  // --- Normalize input rows ---
+  const data = normalizeData({ clients, workers, tasks }, undefined, calendar);
+  // Blackout phases and phases outside the calendar are never scheduled.
+  const schedulable = calendar ? new Set(activePhases(calendar)) : null;
+  if (calendar && calendar.blackout.length > 0) {
+    warnings.push(`Blackout phase(s) ${calendar.blackout.join(', ')} are not scheduled`);
+  }
+  const solverWorkers: SolverWorker[] = data.workers
+    .filter(worker => worker.id)
+    .map(worker => ({
+      id: worker.id,
+      group: worker.group,
+      skills: worker.skills,
+      slots: schedulable ? worker.availableSlots.filter(phase => schedulable.has(phase)) : worker.availableSlots,
+      maxLoad: Math.max(0, worker.maxLoadPerPhase ?? 1),
+      qualification: qualificationScore(worker.qualificationLevel),
+    }));
+  const allPhases = [...new Set(solverWorkers.flatMap(worker => worker.slots))].sort((a, b) => a - b);
+
+  const taskMap = new Map<string, SolverTask>();
+  data.tasks.forEach(task => {
+    if (!task.id) return;
+    taskMap.set(task.id, {
+      id: task.id,
+      skills: task.requiredSkills,
+      phases: task.preferredPhases.length > 0 ? task.preferredPhases : allPhases,
+      duration: Math.max(1, task.duration ?? 1),
+      maxConcurrent: Math.max(1, task.maxConcurrent ?? 1),
+    });
+  });
+
+  // --- Rule constraints ---
+  const resolved = resolveRules(rules, { clients, workers, tasks })
+    .sort((a, b) => b.precedence - a.precedence || a.index - b.index);
+
+  const phaseWindows: AllocationModel['phaseWindows'] = new Map();
+  const groupLoadLimits: AllocationModel['groupLoadLimits'] = new Map();
+  const groupSlots: AllocationModel['groupSlots'] = new Map();
+  const coRunGroups: AllocationModel['coRunGroups'] = new Map();
+
+  resolved.forEach(({ rule, index }) => {
+    switch (rule.type) {
+      case 'phaseWindow': {
+        const current = phaseWindows.get(rule.task);
+        const allowed = rule.allowedPhases;
+        if (!current) {
+          phaseWindows.set(rule.task, { phases: allowed, ruleIndices: [index] });
+        } else if (intersect(current.phases, allowed).length > 0) {
+          phaseWindows.set(rule.task, { phases: intersect(current.phases, allowed), ruleIndices: [...current.ruleIndices, index] });
+        } else {
+          warnings.push(`Rule ${index + 1}: phase window for ${rule.task} conflicts with a higher-precedence window and was ignored`);
+        }
+        break;
+      }
+      case 'loadLimit':
+        if (!groupLoadLimits.has(rule.group)) groupLoadLimits.set(rule.group, { limit: Number(rule.maxSlotsPerPhase), ruleIndex: index });
+        break;
+      case 'slotRestriction': {
+        const members = solverWorkers.filter(worker => worker.group === rule.group);
+        if (members.length === 0) break;
+        const common = members.reduce((acc, worker) => intersect(acc, worker.slots), members[0].slots);
+        if (common.length < rule.minCommonSlots) {
+          warnings.push(`Rule ${index + 1}: group ${rule.group} shares only ${common.length} common slot(s), ${rule.minCommonSlots} required`);
+        }
+        if (!groupSlots.has(rule.group)) groupSlots.set(rule.group, { slots: common, ruleIndex: index });
+        break;
+      }
+      case 'coRun': {
+        const merged = new Set<string>(rule.tasks);
+        const ruleIndices = [index];
+        rule.tasks.forEach(task => {
+          const existing = coRunGroups.get(task);
+          if (!existing) return;
+          existing.tasks.forEach(other => merged.add(other));
+          existing.ruleIndices.forEach(i => { if (!ruleIndices.includes(i)) ruleIndices.push(i); });
+        });
+        const group = { tasks: merged, ruleIndices };
+        merged.forEach(task => coRunGroups.set(task, group));
+        break;
+      }
+    }
+  });
+
+  return {
+    workers: solverWorkers,
+    tasks: taskMap,
+    allPhases,
+    phaseWindows,
+    groupLoadLimits,
+    groupSlots,
+    coRunGroups,
+    warnings,
+  };
+}
+
+export function qualifiesFor(worker: SolverWorker, task: SolverTask): boolean {
+  return task.skills.every(skill => worker.skills.has(skill));
+}
+
+export function effectiveCapacity(model: AllocationModel, worker: SolverWorker): number {
+  const limit = model.groupLoadLimits.get(worker.group);
+  return limit !== undefined ? Math.min(worker.maxLoad, limit.limit) : worker.maxLoad;
+}
+
+// The consecutive phases a task of the given duration occupies when it starts in `start`.
+export function runPhases(start: number, duration: number): number[] {
+  return Array.from({ length: duration }, (_, i) => start + i);
+}
+
+export function effectiveSlots(model: AllocationModel, worker: SolverWorker): number[] {
+  const restricted = model.groupSlots.get(worker.group);
+  return restricted ? intersect(worker.slots, restricted.slots) : worker.slots;
+}
+
+// Runs the worker could take the task for: one per start in `starts`, kept when every phase of
+// it is in `slots` and, with a phase window, inside the window.
+export function candidateRuns(
+  model: AllocationModel,
+  task: SolverTask,
+  starts: number[],
+  worker: SolverWorker,
+  slots: number[] = effectiveSlots(model, worker)
+): number[][] {
+  const window = model.phaseWindows.get(task.id);
+  return starts
+    .map(start => runPhases(start, task.duration))
+    .filter(run => run.every(phase => slots.includes(phase) && (!window || window.phases.includes(phase))));
+}
+
+export function solveAllocation({ clients, workers, tasks, rules = [], weights, calendar }: SolveAllocationArgs): AllocationResult {
+  const w = {
+    priority: weights.priority / 10,
+    fulfillment: weights.fulfillment / 10,
+    fairness: weights.fairness / 10,
+    cost: weights.cost / 10,
+    duration: weights.duration / 10,
+    quality: weights.quality / 10,
+    efficiency: weights.efficiency / 10,
+  };
+
+  const model = buildAllocationModel({ clients, workers, tasks, rules, calendar });
+  const { workers: solverWorkers, tasks: taskMap, allPhases, phaseWindows, coRunGroups, warnings } = model;
+  const maxPhase = allPhases.length > 0 ? allPhases[allPhases.length - 1] : 1;
+
+  // --- Demand ---
+  const requests: SolverRequest[] = [];
+  const unassigned: UnassignedRequest[] = [];
+  normalizeData({ clients, workers, tasks }, undefined, calendar).clients.forEach(client => {
+    if (!client.id) return;
+    client.requestedTaskIds.forEach(taskId => {
+      if (!taskMap.has(taskId)) {
+        unassigned.push({ clientId: client.id, taskId, reason: `Task ${taskId} does not exist` });
+        return;
+      }
+      requests.push({
+        clientId: client.id,
+        taskId,
+        priorityLevel: Math.min(5, Math.max(1, client.priorityLevel ?? 1)),
+      });
+    });
+  });
+
+  const qualifiedWorkers = new Map<string, SolverWorker[]>();
+  taskMap.forEach(task => {
+    qualifiedWorkers.set(task.id, solverWorkers.filter(worker => qualifiesFor(worker, task)));
+  });
+
+  const requestScore = (req: SolverRequest) => {
+    const task = taskMap.get(req.taskId)!;
+    const scarcity = 1 / (qualifiedWorkers.get(task.id)!.length + 1);
+    return w.priority * (req.priorityLevel / 5) + w.duration * (1 / task.duration) + w.fulfillment * scarcity;
+  };
+  const ordered = requests
+    .map(req => ({ req, score: requestScore(req) }))
+    .sort((a, b) => b.score - a.score || a.req.clientId.localeCompare(b.req.clientId) || a.req.taskId.localeCompare(b.req.taskId));
+
+  // --- Greedy assignment ---
+  const workerLoad: Record<string, Record<number, number>> = {};
+  solverWorkers.forEach(worker => { workerLoad[worker.id] = {}; });
+  const taskPhaseCount = new Map<string, number>();
+  const coRunAnchors = new Map<string, number>();
+  const assignments: Assignment[] = [];
+
+  const capacityOf = (worker: SolverWorker) => effectiveCapacity(model, worker);
+  const slotsOf = (worker: SolverWorker) => effectiveSlots(model, worker);
+  const totalLoad = (worker: SolverWorker) => Object.values(workerLoad[worker.id]).reduce((sum, n) => sum + n, 0);
+
+  ordered.forEach(({ req, score: requestPriority }) => {
+    const task = taskMap.get(req.taskId)!;
+    // The run starts in a preferred phase and, with a phase window, stays inside it.
+    let phases = task.phases;
+    const window = phaseWindows.get(task.id);
+    if (window) phases = intersect(phases, window.phases);
+    const anchor = coRunAnchors.get(task.id);
+    if (anchor !== undefined) phases = intersect(phases, [anchor]);
+
+    const candidates = qualifiedWorkers.get(task.id)!;
+    let best: { worker: SolverWorker; phase: number; score: number } | null = null;
+
+    for (const worker of candidates) {
+      const capacity = capacityOf(worker);
+      const totalCapacity = capacity * Math.max(1, slotsOf(worker).length);
+      for (const run of candidateRuns(model, task, phases, worker)) {
+        const phase = run[0];
+        if (run.some(p => (workerLoad[worker.id][p] || 0) >= capacity)) continue;
+        if (run.some(p => (taskPhaseCount.get(`${task.id}:${p}`) || 0) >= task.maxConcurrent)) continue;
+        const skillFit = worker.skills.size > 0 ? task.skills.length / worker.skills.size : 0;
+        const score =
+          w.fairness * (1 - totalLoad(worker) / totalCapacity) +
+          w.quality * worker.qualification +
+          w.cost * skillFit +
+          w.efficiency * (1 - (phase - 1) / maxPhase);
+        if (
+          !best ||
+          score > best.score ||
+          (score === best.score && (worker.id < best.worker.id || (worker.id === best.worker.id && phase < best.phase)))
+        ) {
+          best = { worker, phase, score };
+        }
+      }
+    }
+
+    if (!best) {
+      let reason: string;
+      if (candidates.length === 0) {
+        reason = `No worker has all required skills (${task.skills.join(', ')})`;
+      } else if (phases.length === 0) {
+        reason = 'No phase satisfies the preferred phases, phase windows and co-run constraints';
+      } else if (!candidates.some(worker => intersect(phases, slotsOf(worker)).length > 0)) {
+        reason = `No qualified worker is available in phases ${phases.join(', ')}`;
+      } else if (!candidates.some(worker => candidateRuns(model, task, phases, worker).length > 0)) {
+        reason = `No qualified worker is available for ${task.duration} consecutive phase(s) starting in phases ${phases.join(', ')}`;
+      } else {
+        reason = `Qualified workers are at capacity or the task is at MaxConcurrent during every ${task.duration}-phase run starting in phases ${phases.join(', ')}`;
+      }
+      unassigned.push({ clientId: req.clientId, taskId: req.taskId, reason });
+      return;
+    }
+
+    const { worker, phase } = best;
+    const run = runPhases(phase, task.duration);
+    run.forEach(p => {
+      workerLoad[worker.id][p] = (workerLoad[worker.id][p] || 0) + 1;
+      taskPhaseCount.set(`${task.id}:${p}`, (taskPhaseCount.get(`${task.id}:${p}`) || 0) + 1);
+    });
+    coRunGroups.get(task.id)?.tasks.forEach(member => {
+      if (!coRunAnchors.has(member)) coRunAnchors.set(member, phase);
+    });
+    assignments.push({
+      clientId: req.clientId,
+      taskId: task.id,
+      workerId: worker.id,
+      phase,
+      phases: run,
+      score: Math.round((requestPriority + best.score) * 100) / 100,
+    });
+  });
+
+  const requested = requests.length + unassigned.filter(u => !taskMap.has(u.taskId)).length;
+  return {
+    assignments: assignments.sort((a, b) => a.phase - b.phase || a.workerId.localeCompare(b.workerId)),
+    unassigned,
+    workerLoad,
+    warnings,
+    stats: {
+      requested,
+      assigned: assignments.length,
+      fulfillmentRate: requested > 0 ? assignments.length / requested : 0,
+    },
+  };
+}
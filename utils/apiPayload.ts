@@ -0,0 +1,105 @@
+import type { Rule } from '../components/RuleBuilder';
+import type { Weights } from '../components/PrioritizationSliders';
+import { buildSchemaRegistry, ENTITIES, normalizeCustomFields, SchemaRegistry } from './entitySchema';
+import { jsonItemsToRows, parseDelimited } from './fileFormats';
+import { DEFAULT_PHASE_CALENDAR, normalizePhaseCalendar, PhaseCalendar } from './phaseCalendar';
+import { DEFAULT_WEIGHTS, parseRulesFile, parseWeights } from './ruleImport';
+import type { Entity, ValidationResult } from './validationUtils';
+
+// Request parsing shared by the headless API routes (/api/validate, /api/allocate). The request
+// and response shapes are documented in the README under "Headless API".
+
+// Largest accepted request body, passed to Next's body parser by each route.
+export const API_BODY_LIMIT = '10mb';
+export const API_MAX_ROWS = 20000;
+export const API_MAX_RULES = 1000;
+
+export interface ApiPayload {
+  clients: any[];
+  workers: any[];
+  tasks: any[];
+  rules: Rule[];
+  weights: Weights;
+  schemas: SchemaRegistry;
+  calendar: PhaseCalendar;
+  disabledValidators: string[];
+  // Problems with the payload that don't stop the run, e.g. ragged CSV lines or unknown weights.
+  warnings: string[];
+}
+
+// A payload the routes refuse; `status` is the HTTP status to answer with.
+export class ApiPayloadError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+// Each entity is either an array of row objects or the text of a CSV file.
+function readRows(entity: Entity, value: any, warnings: string[]): any[] {
+  if (value === undefined || value === null) return [];
+  let parsed;
+  if (typeof value === 'string') parsed = parseDelimited(value, 'auto', `${entity}.csv`);
+  else if (Array.isArray(value)) parsed = jsonItemsToRows(value, `${entity}.json`);
+  else throw new ApiPayloadError(`${entity} must be an array of rows or CSV text`);
+  if (parsed.rows.length > API_MAX_ROWS) {
+    throw new ApiPayloadError(`${entity} has ${parsed.rows.length} rows; the limit is ${API_MAX_ROWS}`, 413);
+  }
+  parsed.warnings.forEach(warning => warnings.push(`${entity}: ${warning}`));
+  return parsed.rows;
+}
+
+// `rules` is a rule array or a whole rules.json export ({ rules, weights, phaseCalendar }). Rules
+// that reference missing tasks or groups are kept as written so validation reports them.
+function readRules(value: any, data: { clients: any[]; workers: any[]; tasks: any[] }) {
+  if (value === undefined || value === null) return { rules: [] as Rule[], weights: null, weightMessages: [], phaseCalendar: null };
+  let imported;
+  try {
+    imported = parseRulesFile(typeof value === 'string' ? value : JSON.stringify(value), data);
+  } catch (e) {
+    throw new ApiPayloadError((e as Error).message);
+  }
+  if (imported.entries.length > API_MAX_RULES) {
+    throw new ApiPayloadError(`rules has ${imported.entries.length} entries; the limit is ${API_MAX_RULES}`, 413);
+  }
+  const invalid = imported.entries.filter(entry => !entry.rule);
+  if (invalid.length > 0) {
+    throw new ApiPayloadError(`Invalid rules: ${invalid.map(entry => `#${entry.index + 1} ${entry.messages.join('; ')}`).join(', ')}`);
+  }
+  return { ...imported, rules: imported.entries.map(entry => entry.rule!) };
+}
+
+export function parseApiPayload(body: any): ApiPayload {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new ApiPayloadError('Request body must be a JSON object');
+  }
+  const warnings: string[] = [];
+  const [clients, workers, tasks] = ENTITIES.map(entity => readRows(entity, body[entity], warnings));
+  const imported = readRules(body.rules, { clients, workers, tasks });
+
+  // Top-level weights and phaseCalendar win over the ones in a rules.json export.
+  let weights = imported.weights;
+  let weightMessages = imported.weightMessages;
+  if (body.weights !== undefined) ({ weights, messages: weightMessages } = parseWeights(body.weights));
+  if (weights) warnings.push(...weightMessages);
+
+  const rawCalendar = body.phaseCalendar ?? imported.phaseCalendar;
+  const calendar = rawCalendar ? normalizePhaseCalendar(rawCalendar) : DEFAULT_PHASE_CALENDAR;
+  if (rawCalendar && calendar === DEFAULT_PHASE_CALENDAR) warnings.push('phaseCalendar is invalid; using the default calendar');
+
+  return {
+    clients,
+    workers,
+    tasks,
+    rules: imported.rules,
+    weights: weights || DEFAULT_WEIGHTS,
+    schemas: buildSchemaRegistry(normalizeCustomFields(body.customFields)),
+    calendar,
+    disabledValidators: Array.isArray(body.disabledValidators) ? body.disabledValidators.filter((id: any) => typeof id === 'string') : [],
+    warnings,
+  };
+}
+
+// True when nothing with error severity was found; warnings and info don't fail a CI run.
+export function passes(validation: ValidationResult): boolean {
+  return !validation.issues.some(issue => issue.severity === 'error');
+}
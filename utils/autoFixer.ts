@@ -0,0 +1,312 @@
+import type { Entity } from './validationUtils';
+import type { CorrectionSuggestion } from './correctionUtils';
+import { isRangeItem, parseList, parseNumberListCell } from './parseUtils';
+import { DEFAULT_PHASE_CALENDAR, PhaseCalendar } from './phaseCalendar';
+import { rowKeyOf } from './rowKeys';
+import { defaultSchemas, fieldsOfKind, SchemaRegistry, FieldSchema, FieldKind, ENTITIES } from './entitySchema';
+
+// Deterministic fixes for the mechanical validation errors, so data can be cleaned without the
+// AI endpoint. Each fix is a CorrectionSuggestion and goes through the same preview/apply flow.
+
+export type AutoFixCategory = 'duplicateId' | 'numericList' | 'range' | 'listFormat' | 'json';
+
+export interface AutoFix extends CorrectionSuggestion {
+  category: AutoFixCategory;
+}
+
+export const AUTO_FIX_LABELS: Record<AutoFixCategory, string> = {
+  duplicateId: 'Renumber duplicate IDs',
+  numericList: 'Clean numeric lists',
+  range: 'Clamp out-of-range numbers',
+  listFormat: 'Normalize list format',
+  json: 'Repair JSON',
+};
+
+interface AutoFixData {
+  clients: any[];
+  workers: any[];
+  tasks: any[];
+}
+
+const isEmpty = (value: any) => value === undefined || value === null || String(value).trim() === '';
+
+function isJsonList(value: any): boolean {
+  return typeof value === 'string' && value.trim().startsWith('[');
+}
+
+// Splits a list cell even when its JSON is broken: brackets and quotes are dropped and items may
+// be separated by commas, semicolons or pipes.
+function looseItems(value: any): string[] {
+  if (Array.isArray(value)) return value.map(v => String(v).trim()).filter(Boolean);
+  return String(value)
+    .replace(/[[\]"']/g, '')
+    .split(/[,;|]/)
+    .map(s => s.trim())
+    .filter(Boolean);
+}
+
+function formatList(items: (string | number)[], json: boolean): string {
+  return json ? JSON.stringify(items) : items.join(',');
+}
+
+// Most common list style in a column; ties go to the comma style used by the sample files.
+function dominantJsonStyle(rows: any[], field: string): boolean {
+  let json = 0;
+  let comma = 0;
+  rows.forEach(row => {
+    if (isEmpty(row[field])) return;
+    if (isJsonList(row[field])) json++;
+    else comma++;
+  });
+  return json > comma;
+}
+
+function fixDuplicateIds(entity: Entity, rows: any[], idField: string, fixes: AutoFix[]) {
+  const used = new Set(rows.map(row => String(row[idField] ?? '').trim()).filter(Boolean));
+  const seen = new Set<string>();
+
+  // New IDs continue the numbering of the existing ones, e.g. C001..C012 -> C013.
+  const numbered = [...used].map(id => id.match(/^(.*?)(\d+)$/)).filter(Boolean) as RegExpMatchArray[];
+  const prefix = numbered[0]?.[1] ?? entity.charAt(0).toUpperCase();
+  const width = numbered[0]?.[2].length ?? 3;
+  let next = numbered.reduce((max, m) => (m[1] === prefix ? Math.max(max, Number(m[2])) : max), 0) + 1;
+
+  rows.forEach((row, idx) => {
+    const id = String(row[idField] ?? '').trim();
+    if (!id) return;
+    if (!seen.has(id)) {
+      seen.add(id);
+      return;
+    }
+    let candidate = `${prefix}${String(next).padStart(width, '0')}`;
+    while (used.has(candidate)) candidate = `${prefix}${String(++next).padStart(width, '0')}`;
+    used.add(candidate);
+    next++;
+    fixes.push({
+      category: 'duplicateId',
+      entity,
+      rowKey: rowKeyOf(row, idx),
+      column: idField,
+      issue: `Duplicate ${idField}: ${id}`,
+      suggestedFix: `Renumber to ${candidate}`,
+      proposedValue: candidate,
+    });
+  });
+}
+
+// `maxPhase` bounds open ranges like ">=3" in phase columns, as in validation.
+function fixNumericList(entity: Entity, rows: any[], field: string, maxPhase: number | undefined, fixes: AutoFix[]) {
+  const json = dominantJsonStyle(rows, field);
+  rows.forEach((row, idx) => {
+    const value = row[field];
+    if (isEmpty(value)) return;
+
+    const numbers: number[] = [];
+    const ranges: string[] = [];
+    const dropped: string[] = [];
+    looseItems(value).forEach(item => {
+      if (isRangeItem(item) && !parseNumberListCell(item, maxPhase).invalid) {
+        ranges.push(item);
+      } else if (/^\d+(\.0+)?$/.test(item)) {
+        numbers.push(Number(item));
+      } else {
+        dropped.push(item);
+      }
+    });
+    const cleaned = [...new Set(numbers)].sort((a, b) => a - b);
+    if (cleaned.length === 0 && ranges.length === 0) return;
+
+    // Ranges are valid as written and have no JSON form: such cells are only fixed when something
+    // in them doesn't parse, and keep the comma style.
+    let proposed: string;
+    if (ranges.length > 0) {
+      if (dropped.length === 0 && !parseNumberListCell(value, maxPhase).error) return;
+      proposed = formatList([...cleaned, ...ranges], false);
+    } else {
+      proposed = formatList(cleaned, json);
+      const unchanged = dropped.length === 0 && isJsonList(value) === json
+        && parseList(value).map(Number).join(',') === cleaned.join(',');
+      if (unchanged) return;
+    }
+    fixes.push({
+      category: 'numericList',
+      entity,
+      rowKey: rowKeyOf(row, idx),
+      column: field,
+      issue: dropped.length > 0 ? `Non-numeric values: ${dropped.join(', ')}` : 'Inconsistent list format',
+      suggestedFix: dropped.length > 0 ? `Keep only ${proposed.replace(/^\[|\]$/g, '').split(',').join(', ')}` : `Rewrite as ${proposed}`,
+      proposedValue: proposed,
+    });
+  });
+}
+
+function fixRange(entity: Entity, rows: any[], field: string, min: number, max: number, fixes: AutoFix[]) {
+  rows.forEach((row, idx) => {
+    const value = row[field];
+    if (isEmpty(value)) return;
+    let n = Number(value);
+    const salvaged = isNaN(n);
+    if (salvaged) {
+      // Salvage cells like "3 days" or "P4"; anything else needs a human.
+      const match = String(value).match(/-?\d+(\.\d+)?/);
+      if (!match) return;
+      n = Number(match[0]);
+    }
+    const outOfRange = n < min || n > max;
+    if (!salvaged && !outOfRange) return;
+    const proposed = outOfRange ? Math.min(max, Math.max(min, n)) : n;
+    const range = `out of range [${min}, ${max}]`;
+    fixes.push({
+      category: 'range',
+      entity,
+      rowKey: rowKeyOf(row, idx),
+      column: field,
+      issue: salvaged
+        ? `${field} value '${value}' is not a number${outOfRange ? ` and ${n} is ${range}` : ''}`
+        : `${field} value ${value} is ${range}`,
+      suggestedFix: outOfRange ? `Clamp to ${proposed}` : `Use ${proposed}`,
+      proposedValue: proposed,
+    });
+  });
+}
+
+// MaxLoadPerPhase can't exceed the number of phases a worker is available in. Runs after the
+// slot-list and range fixes so it sees their results.
+function fixWorkerLoad(workers: any[], fixes: AutoFix[]) {
+  workers.forEach((worker, idx) => {
+    const find = (column: string) => fixes.find(f => f.entity === 'workers' && f.rowKey === rowKeyOf(worker, idx) && f.column === column);
+    const slotFix = find('AvailableSlots');
+    const slots = looseItems(slotFix ? slotFix.proposedValue : worker.AvailableSlots ?? '').filter(item => /^\d+$/.test(item));
+    const loadFix = find('MaxLoadPerPhase');
+    const load = Number(loadFix ? loadFix.proposedValue : worker.MaxLoadPerPhase);
+    if (slots.length === 0 || isNaN(load) || load <= slots.length) return;
+
+    if (loadFix) {
+      loadFix.proposedValue = slots.length;
+      loadFix.suggestedFix = `Lower to ${slots.length} (available slots)`;
+      return;
+    }
+    fixes.push({
+      category: 'range',
+      entity: 'workers',
+      rowKey: rowKeyOf(worker, idx),
+      column: 'MaxLoadPerPhase',
+      issue: `Max load (${load}) exceeds available slots (${slots.length})`,
+      suggestedFix: `Lower to ${slots.length}`,
+      proposedValue: slots.length,
+    });
+  });
+}
+
+function fixListFormat(entity: Entity, rows: any[], field: string, fixes: AutoFix[]) {
+  const json = dominantJsonStyle(rows, field);
+  rows.forEach((row, idx) => {
+    const value = row[field];
+    if (isEmpty(value)) return;
+    const items = [...new Set(looseItems(value))];
+    if (items.length === 0) return;
+
+    const broken = isJsonList(value) && parseList(value).length === 0;
+    const otherStyle = isJsonList(value) !== json;
+    const repeated = items.length < looseItems(value).length;
+    if (!broken && !otherStyle && !repeated) return;
+
+    const proposed = formatList(items, json);
+    fixes.push({
+      category: 'listFormat',
+      entity,
+      rowKey: rowKeyOf(row, idx),
+      column: field,
+      issue: broken
+        ? 'Invalid list format'
+        : otherStyle
+          ? `${json ? 'Comma-separated' : 'JSON'} list in a ${json ? 'JSON' : 'comma-separated'} column`
+          : 'Repeated list items',
+      suggestedFix: `Rewrite as ${proposed}`,
+      proposedValue: proposed,
+    });
+  });
+}
+
+// Best-effort repair of hand-written JSON: smart and single quotes, unquoted keys, trailing
+// commas and missing closing braces. Returns null when the text still doesn't parse.
+export function repairJson(text: string): string | null {
+  const attempts: ((s: string) => string)[] = [
+    s => s,
+    s => s.replace(/[“”]/g, '"').replace(/[‘’]/g, "'"),
+    s => s.replace(/'([^'"]*)'/g, '"$1"'),
+    s => s.replace(/([{,]\s*)([A-Za-z_][\w-]*)\s*:/g, '$1"$2":'),
+    s => s.replace(/,\s*([}\]])/g, '$1'),
+    s => {
+      const open = (s.match(/{/g) || []).length - (s.match(/}/g) || []).length;
+      return open > 0 ? s + '}'.repeat(open) : s;
+    },
+  ];
+  let current = text.trim();
+  for (const step of attempts) {
+    current = step(current);
+    try {
+      const parsed = JSON.parse(current);
+      if (parsed && typeof parsed === 'object') return JSON.stringify(parsed);
+    } catch {
+      // keep repairing
+    }
+  }
+  // Plain text: keep it as a note instead of discarding it.
+  if (!/[{}[\]:]/.test(text)) return JSON.stringify({ note: text.trim() });
+  return null;
+}
+
+function fixJson(entity: Entity, rows: any[], field: string, fixes: AutoFix[]) {
+  rows.forEach((row, idx) => {
+    const value = row[field];
+    if (isEmpty(value)) return;
+    try {
+      JSON.parse(value);
+      return;
+    } catch {
+      // needs repair
+    }
+    const repaired = repairJson(String(value));
+    if (!repaired) return;
+    fixes.push({
+      category: 'json',
+      entity,
+      rowKey: rowKeyOf(row, idx),
+      column: field,
+      issue: 'Invalid JSON format',
+      suggestedFix: 'Repair quotes, keys and braces',
+      proposedValue: repaired,
+    });
+  });
+}
+
+// Proposes at most one fix per cell; earlier categories win. Which columns are lists, ranges or
+// JSON comes from the schema, so custom columns are fixed too.
+export function proposeAutoFixes(
+  data: AutoFixData,
+  schemas: SchemaRegistry = defaultSchemas,
+  calendar: PhaseCalendar = DEFAULT_PHASE_CALENDAR
+): AutoFix[] {
+  const fixes: AutoFix[] = [];
+  const eachField = (fn: (entity: Entity, field: FieldSchema) => void, kind: FieldKind) =>
+    ENTITIES.forEach(entity => fieldsOfKind(schemas[entity], kind).forEach(field => fn(entity, field)));
+
+  ENTITIES.forEach(entity => fixDuplicateIds(entity, data[entity], schemas[entity].idField, fixes));
+  eachField((entity, field) => fixNumericList(entity, data[entity], field.name, field.phase ? calendar.count : undefined, fixes), 'numberList');
+  eachField((entity, field) => {
+    if (field.min === undefined && field.max === undefined) return;
+    fixRange(entity, data[entity], field.name, field.min ?? -Infinity, field.max ?? Infinity, fixes);
+  }, 'number');
+  fixWorkerLoad(data.workers, fixes);
+  eachField((entity, field) => fixListFormat(entity, data[entity], field.name, fixes), 'list');
+  eachField((entity, field) => fixJson(entity, data[entity], field.name, fixes), 'json');
+
+  const seen = new Set<string>();
+  return fixes.filter(fix => {
+    const key = `${fix.entity}-${fix.rowKey}-${fix.column}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,196 @@
+import type { Entity } from './validationUtils';
+import type { EntitySchema, FieldSchema } from './entitySchema';
+import { SOURCE_FIELD } from './rowSource';
+
+// Maps the headers of an uploaded sheet onto schema fields. Each incoming header maps to a field
+// name, to itself (kept as an extra column) or to IGNORE_COLUMN (dropped).
+
+export type ColumnMapping = Record<string, string>;
+
+export const IGNORE_COLUMN = '';
+
+export type MatchConfidence = 'exact' | 'high' | 'low' | 'none' | 'saved' | 'ai';
+
+export interface MappingSuggestion {
+  headers: string[];
+  mapping: ColumnMapping;
+  confidence: Record<string, MatchConfidence>;
+}
+
+// A parsed upload waiting for the user to confirm its mapping.
+export interface PendingUpload {
+  entity: Entity;
+  fileName: string;
+  rows: any[];
+  suggestion: MappingSuggestion;
+}
+
+const STORAGE_KEY = 'data-alchemist:column-mappings';
+
+// Below this a header is left unmapped; below HIGH_SCORE the match is shown as uncertain.
+const MIN_SCORE = 0.6;
+const HIGH_SCORE = 0.8;
+
+export const normalizeHeader = (header: string) => String(header).toLowerCase().replace(/[^a-z0-9]/g, '');
+
+function editDistance(a: string, b: string): number {
+  const prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = prev[j];
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return prev[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  const [short, long] = a.length <= b.length ? [a, b] : [b, a];
+  // 'priority' inside 'prioritylevel' is a strong hint, more so the more of the name it covers.
+  const containment = long.includes(short) && short.length >= 3 ? 0.6 + 0.35 * (short.length / long.length) : 0;
+  const edit = 1 - editDistance(a, b) / long.length;
+  return Math.max(containment, edit);
+}
+
+export function headerScore(header: string, field: FieldSchema): number {
+  const normalized = normalizeHeader(header);
+  const candidates = [field.name, field.label, ...(field.aliases || [])].map(normalizeHeader);
+  // An exact alias counts as a little less than the real name so the real column wins a tie.
+  return Math.max(...candidates.map((c, i) => (i >= 2 && c === normalized ? 0.95 : similarity(normalized, c))));
+}
+
+export function headersOf(rows: readonly any[]): string[] {
+  const headers: string[] = [];
+  rows.forEach(row => Object.keys(row).forEach(key => {
+    if (key !== SOURCE_FIELD && !headers.includes(key)) headers.push(key);
+  }));
+  return headers;
+}
+
+// Greedy best-first matching: the highest-scoring header/field pair is fixed first, so two
+// headers never claim the same field.
+export function suggestMapping(headers: string[], schema: EntitySchema): MappingSuggestion {
+  const mapping: ColumnMapping = {};
+  const confidence: Record<string, MatchConfidence> = {};
+  const pairs: { header: string; field: string; score: number }[] = [];
+  headers.forEach(header =>
+    schema.fields.forEach(field => {
+      const score = headerScore(header, field);
+      if (score >= MIN_SCORE) pairs.push({ header, field: field.name, score });
+    })
+  );
+  pairs.sort((a, b) => b.score - a.score);
+
+  const usedFields = new Set<string>();
+  pairs.forEach(({ header, field, score }) => {
+    if (header in mapping || usedFields.has(field)) return;
+    mapping[header] = field;
+    usedFields.add(field);
+    confidence[header] = score === 1 ? 'exact' : score >= HIGH_SCORE ? 'high' : 'low';
+  });
+  headers.forEach(header => {
+    if (header in mapping) return;
+    mapping[header] = header;
+    confidence[header] = 'none';
+  });
+  return { headers, mapping, confidence };
+}
+
+// Required fields no header maps to.
+export function missingFields(mapping: ColumnMapping, schema: EntitySchema): string[] {
+  const targets = new Set(Object.values(mapping));
+  return schema.fields.filter(f => f.required && !targets.has(f.name)).map(f => f.name);
+}
+
+// Targets claimed by more than one header.
+export function duplicateTargets(mapping: ColumnMapping): string[] {
+  const counts: Record<string, number> = {};
+  Object.values(mapping).forEach(target => {
+    if (target !== IGNORE_COLUMN) counts[target] = (counts[target] || 0) + 1;
+  });
+  return Object.keys(counts).filter(target => counts[target] > 1);
+}
+
+// Headers worth a second opinion: uncertain matches, and unmatched headers while required fields
+// are still missing.
+export function ambiguousHeaders(suggestion: MappingSuggestion, schema: EntitySchema): string[] {
+  const missing = missingFields(suggestion.mapping, schema).length > 0;
+  return suggestion.headers.filter(header => {
+    const confidence = suggestion.confidence[header];
+    return confidence === 'low' || (confidence === 'none' && missing);
+  });
+}
+
+// Uploads whose headers already are the schema's column names skip the mapping step.
+export function isIdentityMapping(suggestion: MappingSuggestion, schema: EntitySchema): boolean {
+  return (
+    suggestion.headers.every(h => suggestion.confidence[h] === 'exact' && suggestion.mapping[h] === h) &&
+    missingFields(suggestion.mapping, schema).length === 0
+  );
+}
+
+export function applyMapping(rows: readonly any[], mapping: ColumnMapping): any[] {
+  return rows.map(row => {
+    const mapped: Record<string, any> = {};
+    Object.keys(row).forEach(header => {
+      const target = header in mapping ? mapping[header] : header;
+      if (target !== IGNORE_COLUMN) mapped[target] = row[header];
+    });
+    return mapped;
+  });
+}
+
+// --- Remembered mappings ---
+// A source is identified by its entity and header set, so a re-exported file from the same
+// system is recognized whatever it is called.
+
+function getStorage(): Storage | null {
+  return typeof window !== 'undefined' && window.localStorage ? window.localStorage : null;
+}
+
+export function mappingSourceKey(entity: Entity, headers: string[]): string {
+  return `${entity}:${headers.map(normalizeHeader).sort().join('|')}`;
+}
+
+function readSaved(): Record<string, ColumnMapping> {
+  try {
+    return JSON.parse(getStorage()?.getItem(STORAGE_KEY) || '{}') || {};
+  } catch {
+    return {};
+  }
+}
+
+export function loadSavedMapping(entity: Entity, headers: string[]): ColumnMapping | null {
+  const saved = readSaved()[mappingSourceKey(entity, headers)];
+  if (!saved || !headers.every(h => typeof saved[h] === 'string')) return null;
+  return saved;
+}
+
+export function saveMapping(entity: Entity, headers: string[], mapping: ColumnMapping) {
+  const storage = getStorage();
+  if (!storage) return;
+  const saved = readSaved();
+  saved[mappingSourceKey(entity, headers)] = mapping;
+  storage.setItem(STORAGE_KEY, JSON.stringify(saved));
+}
+
+// Fuzzy suggestion, overridden by a mapping remembered for the same source.
+export function prepareMapping(entity: Entity, headers: string[], schema: EntitySchema): MappingSuggestion {
+  const suggestion = suggestMapping(headers, schema);
+  const saved = loadSavedMapping(entity, headers);
+  if (!saved) return suggestion;
+  const known = new Set(schema.fields.map(f => f.name));
+  headers.forEach(header => {
+    const target = saved[header];
+    // A saved target that is no longer a field (e.g. a removed custom column) falls back to the suggestion.
+    if (target !== IGNORE_COLUMN && target !== header && !known.has(target)) return;
+    suggestion.mapping[header] = target;
+    suggestion.confidence[header] = 'saved';
+  });
+  return suggestion;
+}
@@ -0,0 +1,139 @@
+import { validateAllData, Entity, ValidateAllDataArgs } from './validationUtils';
+import { defaultSchemas, SchemaRegistry } from './entitySchema';
+import { rowKeyOf, findRowIndex } from './rowKeys';
+import { rowNumber } from './rowSource';
+
+export interface CorrectionSuggestion {
+  entity: Entity;
+  // Internal row key (see rowKeys.ts), so a suggestion can't land on another row after edits.
+  rowKey: string;
+  column: string;
+  issue: string;
+  suggestedFix: string;
+  // The replacement cell value. Lists may come back as arrays, AttributesJSON as an object.
+  proposedValue?: any;
+}
+
+export type CorrectionStatus = 'resolved' | 'unresolved' | 'skipped';
+
+export interface CorrectionPreview {
+  suggestion: CorrectionSuggestion;
+  status: CorrectionStatus;
+  // Display position of the row, e.g. "4 (workers.csv line 5)"; empty when the row is gone.
+  rowNumber: string;
+  before: any;
+  after: any;
+  // Validation error still on the cell after the change, or why the suggestion can't be applied.
+  message?: string;
+}
+
+// The rest of what the main validation run uses, so a preview judges fixes the same way.
+export type CorrectionContext = Pick<ValidateAllDataArgs, 'rules' | 'calendar' | 'disabledValidators'>;
+
+interface CorrectionData {
+  clients: any[];
+  workers: any[];
+  tasks: any[];
+}
+
+// Marker fields written by earlier versions of the correction panel.
+const MARKER_SUFFIXES = ['_fixed', '_suggestion'];
+
+// Converts a proposed value to the shape the cell already uses, e.g. '[1,2]' for AvailableSlots
+// or 'T1,T2' for RequestedTaskIDs.
+export function toCellValue(proposed: any, current: any): any {
+  if (Array.isArray(proposed)) {
+    return typeof current === 'string' && current.trim().startsWith('[')
+      ? JSON.stringify(proposed)
+      : proposed.join(',');
+  }
+  if (proposed && typeof proposed === 'object') return JSON.stringify(proposed);
+  if (typeof proposed === 'string' && typeof current === 'number' && proposed.trim() !== '' && !isNaN(Number(proposed))) {
+    return Number(proposed);
+  }
+  return proposed;
+}
+
+function applyToData(data: CorrectionData, suggestions: CorrectionSuggestion[]): CorrectionData {
+  const patched: CorrectionData = { clients: data.clients, workers: data.workers, tasks: data.tasks };
+  suggestions.forEach(suggestion => {
+    const rows = patched[suggestion.entity];
+    const rowIndex = rows ? findRowIndex(rows, suggestion.rowKey) : -1;
+    const row = rows?.[rowIndex];
+    if (!row || !(suggestion.column in row) || suggestion.proposedValue === undefined) return;
+    const updated = rows === data[suggestion.entity] ? [...rows] : rows;
+    updated[rowIndex] = { ...row, [suggestion.column]: toCellValue(suggestion.proposedValue, row[suggestion.column]) };
+    patched[suggestion.entity] = updated;
+  });
+  return patched;
+}
+
+// "4 (workers.csv line 5)" for the row a suggestion points at, or '?' once that row is gone.
+export function suggestionRowNumber(data: Record<Entity, readonly any[]>, suggestion: CorrectionSuggestion): string {
+  const rows = data[suggestion.entity] || [];
+  const rowIndex = findRowIndex(rows, suggestion.rowKey);
+  return rowIndex >= 0 ? rowNumber(rows[rowIndex], rowIndex) : '?';
+}
+
+// Applies every suggestion to a copy of the data, re-runs validation and reports per suggestion
+// whether the cell's error is gone.
+export function previewCorrections(
+  data: CorrectionData,
+  suggestions: CorrectionSuggestion[],
+  schemas: SchemaRegistry = defaultSchemas,
+  context: CorrectionContext = {}
+): CorrectionPreview[] {
+  const patched = applyToData(data, suggestions);
+  const validation = validateAllData({ ...patched, ...context, schemas });
+
+  return suggestions.map(suggestion => {
+    const rows = data[suggestion.entity];
+    const rowIndex = rows ? findRowIndex(rows, suggestion.rowKey) : -1;
+    const row = rows?.[rowIndex];
+    const skip = (message: string): CorrectionPreview => ({
+      suggestion,
+      rowNumber: row ? rowNumber(row, rowIndex) : '',
+      status: 'skipped',
+      before: row?.[suggestion.column],
+      after: row?.[suggestion.column],
+      message,
+    });
+
+    if (!row) return skip('Row no longer exists');
+    if (!(suggestion.column in row)) return skip(`Unknown column '${suggestion.column}'`);
+    if (suggestion.proposedValue === undefined) return skip('No proposed value; fix manually');
+
+    const after = patched[suggestion.entity][rowIndex][suggestion.column];
+    const remaining = validation.errors[suggestion.entity][rowKeyOf(row, rowIndex)]?.[suggestion.column];
+    return {
+      suggestion,
+      rowNumber: rowNumber(row, rowIndex),
+      status: remaining ? 'unresolved' : 'resolved',
+      before: row[suggestion.column],
+      after,
+      message: remaining,
+    };
+  });
+}
+
+export function applyCorrections(data: CorrectionData, suggestions: CorrectionSuggestion[]): Partial<CorrectionData> {
+  const patched = applyToData(data, suggestions);
+  const update: Partial<CorrectionData> = {};
+  (Object.keys(patched) as Entity[]).forEach(entity => {
+    if (patched[entity] !== data[entity]) update[entity] = patched[entity];
+  });
+  return update;
+}
+
+// Drops '<column>_fixed' / '<column>_suggestion' fields so they never reach an export.
+export function stripCorrectionMarkers<T extends Record<string, any>>(rows: readonly T[]): T[] {
+  return rows.map(row => {
+    const markers = Object.keys(row).filter(key =>
+      MARKER_SUFFIXES.some(suffix => key.endsWith(suffix) && key.slice(0, -suffix.length) in row)
+    );
+    if (markers.length === 0) return row;
+    const clean = { ...row };
+    markers.forEach(key => delete clean[key]);
+    return clean;
+  });
+}
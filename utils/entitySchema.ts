@@ -0,0 +1,227 @@
+import type { GridColDef } from '@mui/x-data-grid';
+import type { Entity } from './validationUtils';
+import { ROW_KEY_FIELD } from './rowKeys';
+import { SOURCE_FIELD } from './rowSource';
+
+// One schema per entity: the column list, cell kinds, ranges and references that validation,
+// the grids, export and the AI prompts all read from. Custom columns are layered on top of the
+// defaults per workspace, so a team can add e.g. HourlyRate without touching code.
+
+export type FieldKind = 'id' | 'string' | 'number' | 'list' | 'numberList' | 'json';
+
+export interface FieldSchema {
+  name: string;
+  label: string;
+  kind: FieldKind;
+  // Required columns must be present in an upload; cells may still be empty.
+  required?: boolean;
+  min?: number;
+  max?: number;
+  // Every item of the cell (or the cell itself) must be an ID of the referenced entity.
+  references?: Entity;
+  // A number list of phase numbers, checked against the phase calendar.
+  phase?: boolean;
+  // Other header spellings the upload column mapper should recognize.
+  aliases?: string[];
+  width?: number;
+  description?: string;
+  custom?: boolean;
+}
+
+export interface EntitySchema {
+  entity: Entity;
+  label: string;
+  idField: string;
+  fields: FieldSchema[];
+}
+
+export type SchemaRegistry = Record<Entity, EntitySchema>;
+
+export interface CustomField extends FieldSchema {
+  entity: Entity;
+}
+
+export const ENTITIES: Entity[] = ['clients', 'workers', 'tasks'];
+
+export const FIELD_KINDS: FieldKind[] = ['string', 'number', 'list', 'numberList', 'json'];
+
+export const FIELD_KIND_LABELS: Record<FieldKind, string> = {
+  id: 'ID',
+  string: 'Text',
+  number: 'Number',
+  list: 'List',
+  numberList: 'Number list',
+  json: 'JSON',
+};
+
+export const defaultSchemas: SchemaRegistry = {
+  clients: {
+    entity: 'clients',
+    label: 'Client',
+    idField: 'ClientID',
+    fields: [
+      { name: 'ClientID', label: 'Client ID', kind: 'id', required: true, width: 120 },
+      { name: 'ClientName', label: 'Client Name', kind: 'string', required: true, width: 180 },
+      { name: 'PriorityLevel', label: 'Priority Level', kind: 'number', required: true, min: 1, max: 5, aliases: ['Priority'], width: 130, description: '1 (low) to 5 (high)' },
+      { name: 'RequestedTaskIDs', label: 'Requested Task IDs', kind: 'list', required: true, references: 'tasks', aliases: ['Tasks', 'Requested Tasks'], width: 200 },
+      { name: 'GroupTag', label: 'Group Tag', kind: 'string', required: true, aliases: ['Group'], width: 150 },
+      { name: 'AttributesJSON', label: 'Attributes JSON', kind: 'json', required: true, aliases: ['Attributes'], width: 300 },
+    ],
+  },
+  workers: {
+    entity: 'workers',
+    label: 'Worker',
+    idField: 'WorkerID',
+    fields: [
+      { name: 'WorkerID', label: 'Worker ID', kind: 'id', required: true, width: 120 },
+      { name: 'WorkerName', label: 'Worker Name', kind: 'string', required: true, width: 150 },
+      { name: 'Skills', label: 'Skills', kind: 'list', required: true, aliases: ['Skill Set'], width: 200 },
+      { name: 'AvailableSlots', label: 'Available Slots', kind: 'numberList', required: true, phase: true, aliases: ['Slots', 'Availability'], width: 150, description: 'Phase numbers the worker can take, e.g. 1,3 or 2-4 or >=3' },
+      { name: 'MaxLoadPerPhase', label: 'Max Load Per Phase', kind: 'number', required: true, min: 1, max: 10, aliases: ['Max Load', 'Capacity'], width: 150 },
+      { name: 'WorkerGroup', label: 'Worker Group', kind: 'string', required: true, width: 150 },
+      { name: 'QualificationLevel', label: 'Qualification Level', kind: 'string', required: true, aliases: ['Qualification', 'Level'], width: 150 },
+    ],
+  },
+  tasks: {
+    entity: 'tasks',
+    label: 'Task',
+    idField: 'TaskID',
+    fields: [
+      { name: 'TaskID', label: 'Task ID', kind: 'id', required: true, width: 120 },
+      { name: 'TaskName', label: 'Task Name', kind: 'string', required: true, width: 200 },
+      { name: 'Category', label: 'Category', kind: 'string', required: true, width: 150 },
+      { name: 'Duration', label: 'Duration', kind: 'number', required: true, min: 1, max: 100, width: 130, description: 'Number of phases' },
+      { name: 'RequiredSkills', label: 'Required Skills', kind: 'list', required: true, width: 200 },
+      { name: 'PreferredPhases', label: 'Preferred Phases', kind: 'numberList', required: true, phase: true, aliases: ['Phases'], width: 150, description: 'e.g. 1,3 or 2-4 or >=3' },
+      { name: 'MaxConcurrent', label: 'Max Concurrent', kind: 'number', required: true, min: 1, max: 10, aliases: ['Concurrency'], width: 130 },
+    ],
+  },
+};
+
+const FIELD_NAME = /^[A-Za-z_][\w.-]*$/;
+
+// Checks untrusted custom field definitions (from a workspace file or a request body). Invalid
+// entries and names that clash with a built-in column are dropped.
+export function normalizeCustomFields(raw: any): CustomField[] {
+  if (!Array.isArray(raw)) return [];
+  const seen = new Set<string>();
+  const fields: CustomField[] = [];
+  raw.forEach(item => {
+    const entity = item?.entity as Entity;
+    const name = typeof item?.name === 'string' ? item.name.trim() : '';
+    if (!ENTITIES.includes(entity) || !FIELD_NAME.test(name)) return;
+    if (defaultSchemas[entity].fields.some(f => f.name === name) || seen.has(`${entity}.${name}`)) return;
+    seen.add(`${entity}.${name}`);
+    const field: CustomField = {
+      entity,
+      name,
+      label: typeof item.label === 'string' && item.label.trim() ? item.label.trim() : name,
+      kind: FIELD_KINDS.includes(item.kind) ? item.kind : 'string',
+      required: !!item.required,
+      custom: true,
+    };
+    if (typeof item.min === 'number') field.min = item.min;
+    if (typeof item.max === 'number') field.max = item.max;
+    if (ENTITIES.includes(item.references)) field.references = item.references;
+    if (typeof item.description === 'string' && item.description) field.description = item.description;
+    fields.push(field);
+  });
+  return fields;
+}
+
+export function buildSchemaRegistry(customFields: CustomField[] = []): SchemaRegistry {
+  const registry = {} as SchemaRegistry;
+  ENTITIES.forEach(entity => {
+    const extra = customFields
+      .filter(f => f.entity === entity)
+      .map(({ entity: _entity, ...field }) => ({ ...field, custom: true }));
+    registry[entity] = { ...defaultSchemas[entity], fields: [...defaultSchemas[entity].fields, ...extra] };
+  });
+  return registry;
+}
+
+// The custom part of a registry, in the form stored with a workspace and sent to the API.
+export function customFieldsOf(registry: SchemaRegistry): CustomField[] {
+  return ENTITIES.flatMap(entity => registry[entity].fields.filter(f => f.custom).map(f => ({ ...f, entity })));
+}
+
+export function getField(schema: EntitySchema, name: string): FieldSchema | undefined {
+  return schema.fields.find(f => f.name === name);
+}
+
+export function fieldsOfKind(schema: EntitySchema, ...kinds: FieldKind[]): FieldSchema[] {
+  return schema.fields.filter(f => kinds.includes(f.kind));
+}
+
+export function schemaColumns(registry: SchemaRegistry): Record<Entity, string[]> {
+  return {
+    clients: registry.clients.fields.map(f => f.name),
+    workers: registry.workers.fields.map(f => f.name),
+    tasks: registry.tasks.fields.map(f => f.name),
+  };
+}
+
+function rangeText(field: FieldSchema): string {
+  if (field.min !== undefined && field.max !== undefined) return `${field.min}-${field.max}`;
+  if (field.min !== undefined) return `>= ${field.min}`;
+  if (field.max !== undefined) return `<= ${field.max}`;
+  return '';
+}
+
+export function describeField(field: FieldSchema, registry: SchemaRegistry = defaultSchemas): string {
+  const parts: string[] = [FIELD_KIND_LABELS[field.kind].toLowerCase()];
+  const range = rangeText(field);
+  if (range) parts.push(range);
+  if (field.references) parts.push(`${registry[field.references].label} IDs`);
+  if (field.description) parts.push(field.description);
+  return parts.join(', ');
+}
+
+export function gridColumns(schema: EntitySchema): GridColDef[] {
+  return schema.fields.map(field => ({
+    field: field.name,
+    headerName: field.label,
+    width: field.width || 150,
+    // Plain number cells get the numeric editor; lists and JSON stay free text.
+    type: field.kind === 'number' ? 'number' : 'string',
+    align: 'left',
+    headerAlign: 'left',
+    description: `${field.name}: ${describeField(field)}${field.custom ? ' (custom)' : ''}`,
+  }));
+}
+
+// Schema columns first, in schema order; columns the schema doesn't know are kept at the end.
+export function exportColumns(schema: EntitySchema, rows: readonly any[]): string[] {
+  const known = schema.fields.map(f => f.name);
+  const present = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(key => present.add(key)));
+  present.delete(ROW_KEY_FIELD);
+  present.delete(SOURCE_FIELD);
+  return [...known.filter(name => present.has(name)), ...Array.from(present).filter(name => !known.includes(name))];
+}
+
+// Columns found in the data that the schema doesn't define, as candidates for custom fields.
+export function findUnknownColumns(registry: SchemaRegistry, data: Record<Entity, readonly any[]>): { entity: Entity; name: string }[] {
+  const unknown: { entity: Entity; name: string }[] = [];
+  ENTITIES.forEach(entity => {
+    const known = new Set(registry[entity].fields.map(f => f.name));
+    const seen = new Set<string>();
+    data[entity].forEach(row =>
+      Object.keys(row).forEach(key => {
+        if (key === ROW_KEY_FIELD || key === SOURCE_FIELD || known.has(key) || seen.has(key)) return;
+        seen.add(key);
+        unknown.push({ entity, name: key });
+      })
+    );
+  });
+  return unknown;
+}
+
+// Plain-text column reference for AI prompts.
+export function describeSchemas(registry: SchemaRegistry): string {
+  return ENTITIES.map(entity => {
+    const schema = registry[entity];
+    const lines = schema.fields.map(f => `- ${f.name}: ${describeField(f, registry)}${f.custom ? ' (custom)' : ''}`);
+    return `${entity} (ID column ${schema.idField}):\n${lines.join('\n')}`;
+  }).join('\n');
+}
@@ -0,0 +1,250 @@
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import type { Entity } from './validationUtils';
+import { RowSource, withSource } from './rowSource';
+
+// One reader and one serializer for every supported file format, so import and export agree on
+// quoting: list cells ("T001,T002") and AttributesJSON survive a round trip in any format.
+
+export type FileFormat = 'csv' | 'tsv' | 'json' | 'xlsx' | 'ods';
+
+export type CsvDelimiter = 'auto' | ',' | ';' | '\t' | '|';
+
+export type TextEncoding = 'utf-8' | 'windows-1252' | 'iso-8859-1' | 'utf-16le';
+
+export interface DelimitedOptions {
+  delimiter: CsvDelimiter;
+  encoding: TextEncoding;
+}
+
+// Rows tagged with their source line, plus problems that don't belong to any one row.
+export interface ParsedRows {
+  rows: any[];
+  warnings: string[];
+}
+
+export const DEFAULT_DELIMITED_OPTIONS: DelimitedOptions = { delimiter: 'auto', encoding: 'utf-8' };
+
+export const DELIMITER_LABELS: Record<CsvDelimiter, string> = {
+  auto: 'Auto-detect',
+  ',': 'Comma (,)',
+  ';': 'Semicolon (;)',
+  '\t': 'Tab',
+  '|': 'Pipe (|)',
+};
+
+export const ENCODING_LABELS: Record<TextEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'windows-1252': 'Windows-1252 (Excel, Western Europe)',
+  'iso-8859-1': 'ISO-8859-1 (Latin-1)',
+  'utf-16le': 'UTF-16 LE',
+};
+
+export const FORMAT_LABELS: Record<FileFormat, string> = {
+  csv: 'CSV',
+  tsv: 'TSV',
+  json: 'JSON',
+  xlsx: 'Excel (XLSX)',
+  ods: 'OpenDocument (ODS)',
+};
+
+export const IMPORT_ACCEPT = '.csv,.tsv,.txt,.json,.xlsx,.ods';
+
+const MIME_TYPES: Record<FileFormat, string> = {
+  csv: 'text/csv',
+  tsv: 'text/tab-separated-values',
+  json: 'application/json',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ods: 'application/vnd.oasis.opendocument.spreadsheet',
+};
+
+export function detectFormat(fileName: string): FileFormat | null {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'csv' || ext === 'txt') return 'csv';
+  if (ext === 'tsv') return 'tsv';
+  if (ext === 'json') return 'json';
+  if (ext === 'xlsx') return 'xlsx';
+  if (ext === 'ods') return 'ods';
+  return null;
+}
+
+export function decodeText(data: ArrayBuffer, encoding: TextEncoding): string {
+  // TextDecoder drops a matching BOM, which Excel adds to UTF-8 and UTF-16 exports.
+  return new TextDecoder(encoding).decode(data);
+}
+
+function countLineBreaks(value: any): number {
+  if (Array.isArray(value)) return value.reduce((n, v) => n + countLineBreaks(v), 0);
+  return typeof value === 'string' ? (value.match(/\n/g) || []).length : 0;
+}
+
+// Rows are parsed one at a time so each keeps the line it starts on and the parser errors raised
+// for it. Papa reports where a row ends; quoted cells can span lines, so the breaks inside the
+// row's values are taken back off to find its first line.
+export function parseDelimited(text: string, delimiter: CsvDelimiter, fileName: string): ParsedRows {
+  const rows: any[] = [];
+  const warnings: string[] = [];
+  let counted = 0;
+  let lineBreaks = 0;
+  Papa.parse<any>(text, {
+    header: true,
+    skipEmptyLines: true,
+    delimiter: delimiter === 'auto' ? '' : delimiter,
+    step: ({ data, errors, meta }) => {
+      let end = meta.cursor;
+      while (end > counted && (text[end - 1] === '\n' || text[end - 1] === '\r')) end--;
+      for (; counted < end; counted++) if (text[counted] === '\n') lineBreaks++;
+      const source: RowSource = { file: fileName, line: lineBreaks + 1 - countLineBreaks(Object.values(data)) };
+
+      const { __parsed_extra: extra, ...row } = data;
+      const issues: string[] = [];
+      errors.forEach(error => {
+        if (error.row === undefined) warnings.push(error.message);
+        else if (error.code === 'TooManyFields' && Array.isArray(extra)) issues.push(`${error.message}; dropped value(s): ${extra.join(', ')}`);
+        else issues.push(error.message);
+      });
+      rows.push(withSource(row, issues.length ? { ...source, issues } : source));
+    },
+  });
+  return { rows, warnings };
+}
+
+// Nested values become the text the grids and validators expect: objects and arrays as JSON.
+function toCell(value: any): any {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return value;
+}
+
+// Accepts a plain array of rows, or an object holding the rows under the entity's name
+// (e.g. { "clients": [...] }) or under "rows".
+export function parseJsonRows(text: string, fileName: string, entity?: Entity): ParsedRows {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  const items = Array.isArray(parsed) ? parsed : (entity && parsed?.[entity]) || parsed?.rows;
+  if (!Array.isArray(items)) throw new Error('JSON must be an array of rows');
+  return jsonItemsToRows(items, fileName);
+}
+
+// Rows from already-parsed JSON items, e.g. the body of an API request.
+export function jsonItemsToRows(items: any[], fileName: string): ParsedRows {
+  const rows: any[] = [];
+  const warnings: string[] = [];
+  items.forEach((item, i) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      warnings.push(`Item ${i + 1} is not an object and was skipped`);
+      return;
+    }
+    const row = Object.fromEntries(Object.entries(item).map(([key, value]) => [key, toCell(value)]));
+    rows.push(withSource(row, { file: fileName, line: i + 1 }));
+  });
+  return { rows, warnings };
+}
+
+// Cells the reader turned into something else than the user sees: error values and dates,
+// which come through as spreadsheet serial numbers.
+function coercedCells(sheet: XLSX.WorkSheet, rowNum: number, headers: Map<number, string>): string[] {
+  const issues: string[] = [];
+  headers.forEach((header, c) => {
+    const cell: XLSX.CellObject | undefined = sheet[XLSX.utils.encode_cell({ r: rowNum, c })];
+    if (!cell) return;
+    if (cell.t === 'e') issues.push(`${header}: spreadsheet error ${cell.w ?? ''}`.trim());
+    else if (cell.t === 'n' && typeof cell.z === 'string' && XLSX.SSF.is_date(cell.z)) {
+      issues.push(`${header}: date ${cell.w ?? ''} was read as the number ${cell.v}`);
+    }
+  });
+  return issues;
+}
+
+function readSheetRows(sheet: XLSX.WorkSheet, fileName: string, sheetName: string): any[] {
+  const rows = XLSX.utils.sheet_to_json<any>(sheet, { defval: '' });
+  if (!sheet['!ref']) return rows;
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  const headers = new Map<number, string>();
+  for (let c = range.s.c; c <= range.e.c; c++) {
+    const cell = sheet[XLSX.utils.encode_cell({ r: range.s.r, c })];
+    if (cell) headers.set(c, String(cell.w ?? cell.v));
+  }
+  // sheet_to_json skips blank rows; __rowNum__ keeps the 0-based row each object was read from.
+  return rows.map(row => {
+    const issues = coercedCells(sheet, row.__rowNum__, headers);
+    const source: RowSource = { file: fileName, sheet: sheetName, line: row.__rowNum__ + 1 };
+    return withSource(row, issues.length ? { ...source, issues } : source);
+  });
+}
+
+export function readSpreadsheetSheets(data: ArrayBuffer, fileName: string): { name: string; rows: any[] }[] {
+  // cellNF keeps number formats, which is how date cells are recognized.
+  const workbook = XLSX.read(new Uint8Array(data), { type: 'array', cellNF: true });
+  return workbook.SheetNames.map(name => ({ name, rows: readSheetRows(workbook.Sheets[name], fileName, name) }));
+}
+
+// Reads rows for one entity from any supported format.
+export function readEntityRows(fileName: string, data: ArrayBuffer, entity: Entity, options: DelimitedOptions): ParsedRows {
+  const format = detectFormat(fileName);
+  switch (format) {
+    case 'csv':
+      return parseDelimited(decodeText(data, options.encoding), options.delimiter, fileName);
+    case 'tsv':
+      return parseDelimited(decodeText(data, options.encoding), options.delimiter === 'auto' ? '\t' : options.delimiter, fileName);
+    case 'json':
+      return parseJsonRows(decodeText(data, options.encoding), fileName, entity);
+    case 'xlsx':
+    case 'ods': {
+      const sheets = readSpreadsheetSheets(data, fileName);
+      // In a multi-sheet workbook prefer the sheet named after this entity.
+      const sheet = sheets.find(s => s.name.toLowerCase().includes(entity.slice(0, -1))) || sheets[0];
+      return { rows: sheet ? sheet.rows : [], warnings: [] };
+    }
+    default:
+      throw new Error(`Unsupported file type: ${fileName}. Use CSV, TSV, JSON, XLSX or ODS.`);
+  }
+}
+
+function pickColumns(rows: readonly any[], headers: string[]): Record<string, any>[] {
+  return rows.map(row => Object.fromEntries(headers.map(h => [h, row[h] ?? ''])));
+}
+
+export function rowsToSheet(rows: readonly any[], headers: string[]): XLSX.WorkSheet {
+  return XLSX.utils.json_to_sheet(pickColumns(rows, headers), { header: headers });
+}
+
+// Serializes rows in the given column order. Delimited output quotes any cell containing the
+// delimiter, a quote or a line break, so list and JSON cells parse back unchanged.
+export function serializeRows(
+  rows: readonly any[],
+  headers: string[],
+  format: FileFormat,
+  delimiter: Exclude<CsvDelimiter, 'auto'> = ','
+): string | ArrayBuffer {
+  switch (format) {
+    case 'csv':
+    case 'tsv':
+      return Papa.unparse({ fields: headers, data: pickColumns(rows, headers).map(row => headers.map(h => row[h])) }, {
+        delimiter: format === 'tsv' ? '\t' : delimiter,
+        newline: '\n',
+      });
+    case 'json':
+      return JSON.stringify(pickColumns(rows, headers), null, 2);
+    case 'xlsx':
+    case 'ods': {
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, rowsToSheet(rows, headers), 'Sheet1');
+      return XLSX.write(workbook, { bookType: format, type: 'array' });
+    }
+  }
+}
+
+export function downloadFile(content: string | ArrayBuffer, fileName: string, format: FileFormat) {
+  const blob = new Blob([content], { type: MIME_TYPES[format] });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,101 @@
+import type { GridRowsProp } from '@mui/x-data-grid';
+import type { Rule } from '../components/RuleBuilder';
+import { ROW_KEY_FIELD } from './rowKeys';
+
+export interface DataSnapshot {
+  clients: GridRowsProp;
+  workers: GridRowsProp;
+  tasks: GridRowsProp;
+  rules: Rule[];
+}
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  timestamp: string;
+  before: DataSnapshot;
+  after: DataSnapshot;
+}
+
+export interface HistoryState {
+  present: DataSnapshot;
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  nextId: number;
+}
+
+export type HistoryAction =
+  | { type: 'commit'; label: string; update: Partial<DataSnapshot> | ((present: DataSnapshot) => Partial<DataSnapshot>) }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'reset'; present: DataSnapshot };
+
+// Snapshots share unchanged arrays by reference, so keeping this many is cheap.
+export const HISTORY_LIMIT = 100;
+
+export const emptySnapshot: DataSnapshot = { clients: [], workers: [], tasks: [], rules: [] };
+
+export function createHistory(present: DataSnapshot = emptySnapshot): HistoryState {
+  return { present, past: [], future: [], nextId: 1 };
+}
+
+export function historyReducer(state: HistoryState, action: HistoryAction): HistoryState {
+  switch (action.type) {
+    case 'commit': {
+      const update = typeof action.update === 'function' ? action.update(state.present) : action.update;
+      const changed = (Object.keys(update) as (keyof DataSnapshot)[]).some(key => update[key] !== state.present[key]);
+      if (!changed) return state;
+      const after = { ...state.present, ...update };
+      const entry: HistoryEntry = {
+        id: state.nextId,
+        label: action.label,
+        timestamp: new Date().toISOString(),
+        before: state.present,
+        after,
+      };
+      return {
+        present: after,
+        past: [...state.past, entry].slice(-HISTORY_LIMIT),
+        future: [],
+        nextId: state.nextId + 1,
+      };
+    }
+    case 'undo': {
+      const entry = state.past[state.past.length - 1];
+      if (!entry) return state;
+      return {
+        ...state,
+        present: entry.before,
+        past: state.past.slice(0, -1),
+        future: [entry, ...state.future],
+      };
+    }
+    case 'redo': {
+      const entry = state.future[0];
+      if (!entry) return state;
+      return {
+        ...state,
+        present: entry.after,
+        past: [...state.past, entry],
+        future: state.future.slice(1),
+      };
+    }
+    case 'reset':
+      return createHistory(action.present);
+    default:
+      return state;
+  }
+}
+
+// Grids may show a filtered subset; edits are merged back into the full dataset by row key.
+export function mergeRowsById(all: GridRowsProp, updated: GridRowsProp): GridRowsProp {
+  const byId = new Map(updated.map(row => [row[ROW_KEY_FIELD], row]));
+  const merged = all.map(row => byId.get(row[ROW_KEY_FIELD]) ?? row);
+  const changed = merged.some((row, idx) => row !== all[idx]);
+  return changed ? merged : all;
+}
+
+export function pickRowsById(all: GridRowsProp, subset: GridRowsProp): GridRowsProp {
+  const ids = new Set(subset.map(row => row[ROW_KEY_FIELD]));
+  return all.filter(row => ids.has(row[ROW_KEY_FIELD]));
+}
@@ -0,0 +1,138 @@
+import fs from 'fs';
+import path from 'path';
+import OpenAI from 'openai';
+
+// Server-side only: shared chat-completion layer for the API routes.
+//
+// Environment:
+//   LLM_PROVIDER      'openai' (default) or 'mock'
+//   OPENAI_API_KEY    key for the OpenAI provider (optional when LLM_BASE_URL points at a local server)
+//   LLM_MODEL         model name, default gpt-3.5-turbo
+//   LLM_BASE_URL      OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+//   LLM_TIMEOUT_MS    per-request timeout, default 30000
+//   LLM_MAX_RETRIES   retries on connection errors, 429 and 5xx, default 2
+//   LLM_FIXTURES_DIR  mock fixtures directory, default fixtures/llm
+
+export type LLMTask = 'nl-search' | 'nl-rule' | 'ai-correction' | 'ai-rule-recommendations' | 'column-mapping';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  // Names the calling route; the mock provider picks its fixture file by it.
+  task: LLMTask;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LLMProvider {
+  name: string;
+  complete(request: ChatRequest): Promise<string>;
+}
+
+export interface LLMConfig {
+  provider: 'openai' | 'mock';
+  apiKey?: string;
+  model: string;
+  baseURL?: string;
+  timeoutMs: number;
+  maxRetries: number;
+  fixturesDir: string;
+}
+
+interface FixtureCase {
+  // Substring of the last user message, or /regex/flags.
+  match: string;
+  response: any;
+}
+
+interface FixtureFile {
+  cases?: FixtureCase[];
+  default?: any;
+}
+
+function envNumber(value: string | undefined, fallback: number): number {
+  const n = Number(value);
+  return value !== undefined && value !== '' && !isNaN(n) ? n : fallback;
+}
+
+export function readLLMConfig(env: Record<string, string | undefined> = process.env): LLMConfig {
+  return {
+    provider: env.LLM_PROVIDER === 'mock' ? 'mock' : 'openai',
+    apiKey: env.OPENAI_API_KEY || undefined,
+    model: env.LLM_MODEL || 'gpt-3.5-turbo',
+    baseURL: env.LLM_BASE_URL || undefined,
+    timeoutMs: envNumber(env.LLM_TIMEOUT_MS, 30000),
+    maxRetries: envNumber(env.LLM_MAX_RETRIES, 2),
+    fixturesDir: env.LLM_FIXTURES_DIR || path.join('fixtures', 'llm'),
+  };
+}
+
+export function createOpenAIProvider(config: LLMConfig): LLMProvider {
+  const client = new OpenAI({
+    // Local OpenAI-compatible servers usually ignore the key but the SDK requires one.
+    apiKey: config.apiKey || 'not-needed',
+    baseURL: config.baseURL,
+    timeout: config.timeoutMs,
+    maxRetries: config.maxRetries,
+  });
+  return {
+    name: config.baseURL ? `openai-compatible (${config.baseURL})` : 'openai',
+    async complete({ messages, temperature, maxTokens }) {
+      const completion = await client.chat.completions.create({
+        model: config.model,
+        messages,
+        temperature,
+        max_tokens: maxTokens,
+      });
+      return completion.choices?.[0]?.message?.content || '';
+    },
+  };
+}
+
+function matchesCase(fixture: FixtureCase, prompt: string): boolean {
+  const regex = fixture.match.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) return new RegExp(regex[1], regex[2]).test(prompt);
+  return prompt.toLowerCase().includes(fixture.match.toLowerCase());
+}
+
+// Answers from fixtures/llm/<task>.json: the first case whose `match` is found in the last user
+// message wins, otherwise `default`. Same prompt, same answer.
+export function createMockProvider(config: LLMConfig): LLMProvider {
+  const dir = path.resolve(process.cwd(), config.fixturesDir);
+  return {
+    name: 'mock',
+    async complete({ task, messages }) {
+      const file = path.join(dir, `${task}.json`);
+      if (!fs.existsSync(file)) {
+        throw new Error(`No mock fixture for '${task}' (expected ${file})`);
+      }
+      const fixture: FixtureFile = JSON.parse(fs.readFileSync(file, 'utf8'));
+      const prompt = [...messages].reverse().find(m => m.role === 'user')?.content || '';
+      const hit = (fixture.cases || []).find(c => matchesCase(c, prompt));
+      const response = hit ? hit.response : fixture.default;
+      if (response === undefined) {
+        throw new Error(`Mock fixture for '${task}' has no matching case and no default`);
+      }
+      return typeof response === 'string' ? response : JSON.stringify(response);
+    },
+  };
+}
+
+// Returns null when the OpenAI provider is selected but neither a key nor a base URL is set.
+export function getLLMProvider(config: LLMConfig = readLLMConfig()): LLMProvider | null {
+  if (config.provider === 'mock') return createMockProvider(config);
+  if (!config.apiKey && !config.baseURL) return null;
+  return createOpenAIProvider(config);
+}
+
+export const LLM_NOT_CONFIGURED = 'LLM provider not configured: set OPENAI_API_KEY, LLM_BASE_URL or LLM_PROVIDER=mock';
+
+// Models often wrap JSON in a ```json fence; strip it before parsing.
+export function extractJSON(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  return (fenced ? fenced[1] : text).trim();
+}
@@ -0,0 +1,132 @@
+import type { Entity } from './validationUtils';
+import { SOURCE_FIELD } from './rowSource';
+import { ROW_KEY_FIELD } from './rowKeys';
+
+// Layering an upload onto rows that are already loaded (and possibly cleaned). The plan carries
+// both the merged rows and the diff against the current data, so the preview shows exactly
+// what a commit would do.
+
+export type MergeMode = 'replace' | 'append' | 'upsert';
+
+export const MERGE_MODE_LABELS: Record<MergeMode, string> = {
+  replace: 'Replace all rows',
+  append: 'Append as new rows',
+  upsert: 'Update by ID, add new',
+};
+
+// Uploaded rows waiting for a merge mode per entity, from one upload action.
+export interface PendingMerge {
+  label: string;
+  incoming: Partial<Record<Entity, any[]>>;
+}
+
+export interface FieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+export interface RowChange {
+  id: string;
+  before: any;
+  after: any;
+  fields: FieldChange[];
+}
+
+export interface MergePlan {
+  mode: MergeMode;
+  rows: any[];
+  added: any[];
+  removed: any[];
+  changed: RowChange[];
+  unchanged: number;
+}
+
+// Row keys and provenance differ between any two uploads and aren't data.
+const IGNORED_FIELDS = new Set([ROW_KEY_FIELD, SOURCE_FIELD]);
+
+function cellText(value: any): string {
+  return value === undefined || value === null ? '' : String(value).trim();
+}
+
+function rowIdOf(row: any, idField: string): string {
+  return cellText(row[idField]);
+}
+
+export function diffFields(before: any, after: any): FieldChange[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: FieldChange[] = [];
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.has(field)) return;
+    if (cellText(before[field]) !== cellText(after[field])) {
+      changes.push({ field, before: before[field], after: after[field] });
+    }
+  });
+  return changes;
+}
+
+// Pairs rows by ID: the first current row with an ID is matched by the first incoming row with
+// it, and so on, so duplicate IDs in either file pair up in order instead of collapsing.
+function pairById(current: readonly any[], incoming: readonly any[], idField: string) {
+  const queues = new Map<string, number[]>();
+  current.forEach((row, idx) => {
+    const id = rowIdOf(row, idField);
+    if (!id) return;
+    if (!queues.has(id)) queues.set(id, []);
+    queues.get(id)!.push(idx);
+  });
+  return incoming.map(row => {
+    const id = rowIdOf(row, idField);
+    return id ? queues.get(id)?.shift() : undefined;
+  });
+}
+
+export function planMerge(current: readonly any[], incoming: readonly any[], mode: MergeMode, idField: string): MergePlan {
+  const plan: MergePlan = { mode, rows: [], added: [], removed: [], changed: [], unchanged: 0 };
+
+  if (mode === 'append') {
+    plan.rows = [...current, ...incoming];
+    plan.added = [...incoming];
+    plan.unchanged = current.length;
+    return plan;
+  }
+
+  const matches = pairById(current, incoming, idField);
+  const matched = new Set<number>();
+  const rows = mode === 'upsert' ? [...current] : [];
+
+  incoming.forEach((row, i) => {
+    const idx = matches[i];
+    if (idx === undefined) {
+      rows.push(row);
+      plan.added.push(row);
+      return;
+    }
+    matched.add(idx);
+    const before = current[idx];
+    // Upserts only touch the columns the incoming file has; the row key stays so selections and
+    // validation errors keep pointing at the same row.
+    const key = { [ROW_KEY_FIELD]: before[ROW_KEY_FIELD] };
+    const after = mode === 'upsert' ? { ...before, ...row, ...key } : { ...row, ...key };
+    const fields = diffFields(before, after);
+    if (fields.length > 0) {
+      plan.changed.push({ id: rowIdOf(before, idField), before, after, fields });
+    } else {
+      plan.unchanged++;
+    }
+    if (mode === 'upsert') rows[idx] = after;
+    else rows.push(after);
+  });
+
+  if (mode === 'replace') {
+    plan.removed = current.filter((_, idx) => !matched.has(idx));
+  } else {
+    plan.unchanged += current.length - matched.size;
+  }
+  plan.rows = rows;
+  return plan;
+}
+
+export function describeMergePlan(plan: MergePlan): string {
+  return `+${plan.added.length} ~${plan.changed.length} -${plan.removed.length}`;
+}
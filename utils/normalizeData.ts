@@ -0,0 +1,214 @@
+import type { Entity } from './validationUtils';
+import { defaultSchemas, EntitySchema, FieldSchema, SchemaRegistry } from './entitySchema';
+import { ParsedCell, parseJsonCell, parseListCell, parseNumberCell, parseNumberListCell } from './parseUtils';
+import { rowKeyOf } from './rowKeys';
+import { DEFAULT_PHASE_CALENDAR, PhaseCalendar } from './phaseCalendar';
+
+// Every row read once into a typed record: numbers coerced, lists split, phase ranges expanded
+// and JSON parsed, with a diagnostic for each cell that didn't read cleanly. Validation, rule
+// checks, the allocation model and export all work from these records instead of re-parsing
+// raw cells, so they agree on what a cell means.
+
+export type CellDiagnosticCode = 'malformed-list' | 'non-numeric-list' | 'not-a-number' | 'invalid-json';
+
+export interface CellDiagnostic {
+  field: string;
+  code: CellDiagnosticCode;
+  message: string;
+  // List items that were dropped.
+  invalid?: string[];
+}
+
+export interface NormalizedRow {
+  key: string;
+  idx: number;
+  row: any;
+  id: string;
+  // Each schema field by its kind: number | null, string[], number[], parsed JSON or trimmed text.
+  values: Record<string, any>;
+  diagnostics: CellDiagnostic[];
+}
+
+export interface NormalizedClient extends NormalizedRow {
+  priorityLevel: number | null;
+  requestedTaskIds: string[];
+  groupTag: string;
+  attributes: any;
+}
+
+export interface NormalizedWorker extends NormalizedRow {
+  skills: Set<string>;
+  availableSlots: number[];
+  maxLoadPerPhase: number | null;
+  group: string;
+  qualificationLevel: string;
+}
+
+export interface NormalizedTask extends NormalizedRow {
+  category: string;
+  duration: number | null;
+  requiredSkills: string[];
+  preferredPhases: number[];
+  maxConcurrent: number | null;
+}
+
+export interface NormalizedData {
+  clients: NormalizedClient[];
+  workers: NormalizedWorker[];
+  tasks: NormalizedTask[];
+}
+
+function textOf(value: any): string {
+  return value === undefined || value === null ? '' : String(value).trim();
+}
+
+function readField(field: FieldSchema, raw: any, calendar: PhaseCalendar): ParsedCell<any> {
+  switch (field.kind) {
+    case 'number': return parseNumberCell(raw);
+    case 'list': return parseListCell(raw);
+    case 'numberList': return parseNumberListCell(raw, field.phase ? calendar.count : undefined);
+    case 'json': return parseJsonCell(raw);
+    default: return { value: textOf(raw) };
+  }
+}
+
+function diagnose(field: FieldSchema, cell: ParsedCell<any>): CellDiagnostic | null {
+  if (cell.error) {
+    const code: CellDiagnosticCode = field.kind === 'number' ? 'not-a-number' : field.kind === 'json' ? 'invalid-json' : 'malformed-list';
+    return { field: field.name, code, message: cell.error };
+  }
+  if (cell.invalid) {
+    return { field: field.name, code: 'non-numeric-list', message: `Non-numeric values: ${cell.invalid.join(', ')}`, invalid: cell.invalid };
+  }
+  return null;
+}
+
+// Rows are replaced rather than mutated on edit, so a row object maps to one record for as long
+// as the schema, the calendar and its position stay the same.
+const cache = new WeakMap<object, { schema: EntitySchema; calendar: PhaseCalendar; record: NormalizedRow }>();
+
+function typedFields(entity: Entity, values: Record<string, any>) {
+  switch (entity) {
+    case 'clients':
+      return {
+        priorityLevel: values.PriorityLevel,
+        requestedTaskIds: values.RequestedTaskIDs,
+        groupTag: values.GroupTag,
+        attributes: values.AttributesJSON,
+      };
+    case 'workers':
+      return {
+        skills: new Set<string>(values.Skills),
+        availableSlots: values.AvailableSlots,
+        maxLoadPerPhase: values.MaxLoadPerPhase,
+        group: values.WorkerGroup,
+        qualificationLevel: values.QualificationLevel,
+      };
+    case 'tasks':
+      return {
+        category: values.Category,
+        duration: values.Duration,
+        requiredSkills: values.RequiredSkills,
+        preferredPhases: values.PreferredPhases,
+        maxConcurrent: values.MaxConcurrent,
+      };
+  }
+}
+
+export function normalizeRow(
+  entity: Entity,
+  row: any,
+  idx: number,
+  schema: EntitySchema = defaultSchemas[entity],
+  calendar: PhaseCalendar = DEFAULT_PHASE_CALENDAR
+): NormalizedRow {
+  const cached = row && typeof row === 'object' ? cache.get(row) : undefined;
+  if (cached && cached.schema === schema && cached.calendar === calendar && cached.record.idx === idx) return cached.record;
+
+  const values: Record<string, any> = {};
+  const diagnostics: CellDiagnostic[] = [];
+  // Built-in fields are always read so the typed accessors exist even when a column is missing.
+  const fields = [...schema.fields, ...defaultSchemas[entity].fields.filter(f => !schema.fields.some(s => s.name === f.name))];
+  fields.forEach(field => {
+    const cell = readField(field, row?.[field.name], calendar);
+    values[field.name] = cell.value;
+    const diagnostic = diagnose(field, cell);
+    if (diagnostic) diagnostics.push(diagnostic);
+  });
+
+  const record = {
+    key: rowKeyOf(row, idx),
+    idx,
+    row,
+    id: textOf(row?.[schema.idField]),
+    values,
+    diagnostics,
+    ...typedFields(entity, values),
+  };
+  if (row && typeof row === 'object') cache.set(row, { schema, calendar, record });
+  return record;
+}
+
+export function normalizeRows(
+  entity: Entity,
+  rows: readonly any[],
+  schema: EntitySchema = defaultSchemas[entity],
+  calendar: PhaseCalendar = DEFAULT_PHASE_CALENDAR
+): NormalizedRow[] {
+  return rows.map((row, idx) => normalizeRow(entity, row, idx, schema, calendar));
+}
+
+export function normalizeData(
+  data: { clients: readonly any[]; workers: readonly any[]; tasks: readonly any[] },
+  schemas: SchemaRegistry = defaultSchemas,
+  calendar: PhaseCalendar = DEFAULT_PHASE_CALENDAR
+): NormalizedData {
+  return {
+    clients: normalizeRows('clients', data.clients, schemas.clients, calendar) as NormalizedClient[],
+    workers: normalizeRows('workers', data.workers, schemas.workers, calendar) as NormalizedWorker[],
+    tasks: normalizeRows('tasks', data.tasks, schemas.tasks, calendar) as NormalizedTask[],
+  };
+}
+
+// Workers by skill, so finding who can take a task is a lookup instead of a scan over every
+// worker. Built once per normalized worker list.
+const skillIndexes = new WeakMap<readonly NormalizedWorker[], Map<string, NormalizedWorker[]>>();
+
+export function workersBySkill(workers: readonly NormalizedWorker[]): Map<string, NormalizedWorker[]> {
+  let index = skillIndexes.get(workers);
+  if (!index) {
+    index = new Map();
+    workers.forEach(worker => worker.skills.forEach(skill => {
+      if (!index!.has(skill)) index!.set(skill, []);
+      index!.get(skill)!.push(worker);
+    }));
+    skillIndexes.set(workers, index);
+  }
+  return index;
+}
+
+// --- Export ---
+
+// Rows with every cleanly read cell written in one form: numbers as numbers, lists as "a,b",
+// number lists as "[1,2,3]" with ranges expanded. Cells with a diagnostic are left as typed so
+// nothing the user wrote is lost.
+export function canonicalRows(
+  entity: Entity,
+  rows: readonly any[],
+  schema: EntitySchema = defaultSchemas[entity],
+  calendar: PhaseCalendar = DEFAULT_PHASE_CALENDAR
+): any[] {
+  return rows.map((row, idx) => {
+    const record = normalizeRow(entity, row, idx, schema, calendar);
+    const out = { ...row };
+    schema.fields.forEach(field => {
+      const value = record.values[field.name];
+      if (!(field.name in row) || record.diagnostics.some(d => d.field === field.name)) return;
+      if (field.kind === 'number' && value !== null) out[field.name] = value;
+      // Items that contain a comma themselves only survive as a JSON list.
+      else if (field.kind === 'list' && value.length > 0) out[field.name] = value.some((v: string) => v.includes(',')) ? JSON.stringify(value) : value.join(',');
+      else if (field.kind === 'numberList' && value.length > 0) out[field.name] = JSON.stringify(value);
+    });
+    return out;
+  });
+}
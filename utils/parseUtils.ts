@@ -0,0 +1,109 @@
+// Shared helpers for the list-like cells found in the uploaded sheets.
+// Cells arrive either as JSON arrays ("[1,2,3]") or comma-separated strings ("1,2,3").
+// Number lists may also use ranges ("1-3", ">=4", or "[1, \"4-6\"]").
+
+// A cell read into a typed value, with what went wrong if it couldn't be read cleanly.
+export interface ParsedCell<T> {
+  value: T;
+  // The cell as a whole couldn't be read (e.g. broken JSON).
+  error?: string;
+  // Items that were dropped because they don't fit the type.
+  invalid?: string[];
+}
+
+export function isBlank(value: any): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+export function parseListCell(value: any): ParsedCell<string[]> {
+  if (isBlank(value)) return { value: [] };
+  if (Array.isArray(value)) return { value: value.map(v => String(v).trim()).filter(Boolean) };
+  const text = String(value).trim();
+  if (text.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(text);
+      if (Array.isArray(parsed)) return { value: parsed.map(v => String(v).trim()).filter(Boolean) };
+    } catch {
+      // Reported below
+    }
+    return { value: [], error: 'Invalid list format' };
+  }
+  return { value: text.split(',').map(s => s.trim()).filter(Boolean) };
+}
+
+const RANGE = /^(\d+)\s*-\s*(\d+)$/;
+const OPEN_RANGE = /^(>=|>|<=|<)\s*(\d+)$/;
+
+// "2-4", ">=3", "<4" and the like, whether or not the bounds make sense.
+export function isRangeItem(item: string): boolean {
+  return RANGE.test(item) || OPEN_RANGE.test(item);
+}
+
+// Whole numbers and inclusive ranges; a range is capped so a typo like "1-100000" can't blow up.
+const MAX_RANGE_LENGTH = 1000;
+
+// Open-ended ranges (">=3", "<4") need an upper bound, the last phase of the phase calendar;
+// without one they're reported as invalid items.
+export function parseNumberListCell(value: any, maxPhase?: number): ParsedCell<number[]> {
+  const list = parseListCell(value);
+  const numbers: number[] = [];
+  const invalid: string[] = [];
+  const addRange = (item: string, from: number, to: number) => {
+    if (from > to || to - from >= MAX_RANGE_LENGTH) {
+      invalid.push(item);
+      return;
+    }
+    for (let n = from; n <= to; n++) numbers.push(n);
+  };
+  list.value.forEach(item => {
+    const range = item.match(RANGE);
+    const open = item.match(OPEN_RANGE);
+    if (range) {
+      addRange(item, Number(range[1]), Number(range[2]));
+    } else if (open) {
+      const n = Number(open[2]);
+      if (open[1].startsWith('<')) addRange(item, 1, open[1] === '<' ? n - 1 : n);
+      else if (maxPhase !== undefined) addRange(item, open[1] === '>' ? n + 1 : n, maxPhase);
+      else invalid.push(item);
+    } else if (/^\d+$/.test(item)) {
+      numbers.push(Number(item));
+    } else {
+      invalid.push(item);
+    }
+  });
+  const unique = [...new Set(numbers)];
+  return {
+    value: unique,
+    ...(list.error ? { error: list.error } : {}),
+    ...(invalid.length > 0 ? { invalid } : {}),
+  };
+}
+
+export function parseNumberCell(value: any): ParsedCell<number | null> {
+  if (isBlank(value)) return { value: null };
+  const n = typeof value === 'number' ? value : Number(String(value).trim());
+  return isNaN(n) ? { value: null, error: 'Value must be a number' } : { value: n };
+}
+
+export function parseJsonCell(value: any): ParsedCell<any> {
+  if (isBlank(value)) return { value: null };
+  if (typeof value === 'object') return { value };
+  try {
+    return { value: JSON.parse(String(value)) };
+  } catch {
+    return { value: null, error: 'Invalid JSON format' };
+  }
+}
+
+export function parseList(value: any): string[] {
+  return parseListCell(value).value;
+}
+
+export function parseNumberList(value: any, maxPhase?: number): number[] {
+  return parseNumberListCell(value, maxPhase).value;
+}
+
+export function parseNumber(value: any, fallback: number): number {
+  const n = parseNumberCell(value).value;
+  return n === null ? fallback : n;
+}
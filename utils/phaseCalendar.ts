@@ -0,0 +1,60 @@
+// The project's phases: how many there are, what they're called and which are blacked out
+// (holidays, release freezes). Phase numbers in the data are checked against it, open-ended
+// ranges like ">=3" run to its last phase, and the rule forms offer its phases.
+
+export interface PhaseCalendar {
+  count: number;
+  // Optional name and start date per phase, indexed by phase number - 1.
+  labels: string[];
+  dates: string[];
+  // Phases nothing may be scheduled in.
+  blackout: number[];
+}
+
+export const MAX_PHASES = 100;
+
+export const DEFAULT_PHASE_CALENDAR: PhaseCalendar = { count: 6, labels: [], dates: [], blackout: [] };
+
+export function calendarPhases(calendar: PhaseCalendar): number[] {
+  return Array.from({ length: calendar.count }, (_, i) => i + 1);
+}
+
+export function inCalendar(calendar: PhaseCalendar, phase: number): boolean {
+  return Number.isInteger(phase) && phase >= 1 && phase <= calendar.count;
+}
+
+export function isBlackout(calendar: PhaseCalendar, phase: number): boolean {
+  return calendar.blackout.includes(phase);
+}
+
+// Phases work can be scheduled in.
+export function activePhases(calendar: PhaseCalendar): number[] {
+  return calendarPhases(calendar).filter(phase => !isBlackout(calendar, phase));
+}
+
+// "Phase 2", "Phase 2: Design" or "Phase 2: Design (2026-03-02)".
+export function phaseLabel(calendar: PhaseCalendar, phase: number): string {
+  const name = calendar.labels[phase - 1]?.trim();
+  const date = calendar.dates[phase - 1]?.trim();
+  const base = name ? `Phase ${phase}: ${name}` : `Phase ${phase}`;
+  return date ? `${base} (${date})` : base;
+}
+
+// Checks an untrusted calendar (from a workspace or a rules file); anything unusable falls back
+// to the default.
+export function normalizePhaseCalendar(raw: any): PhaseCalendar {
+  if (!raw || typeof raw !== 'object') return DEFAULT_PHASE_CALENDAR;
+  const count = Number(raw.count);
+  if (!Number.isInteger(count) || count < 1 || count > MAX_PHASES) return DEFAULT_PHASE_CALENDAR;
+  const strings = (value: any) =>
+    Array.isArray(value) ? value.slice(0, count).map(v => (typeof v === 'string' ? v : '')) : [];
+  const blackout = Array.isArray(raw.blackout)
+    ? [...new Set<number>(raw.blackout.map(Number).filter((p: number) => Number.isInteger(p) && p >= 1 && p <= count))].sort((a, b) => a - b)
+    : [];
+  return { count, labels: strings(raw.labels), dates: strings(raw.dates), blackout };
+}
+
+// Shrinking the calendar drops the labels, dates and blackouts of the phases that went away.
+export function resizePhaseCalendar(calendar: PhaseCalendar, count: number): PhaseCalendar {
+  return normalizePhaseCalendar({ ...calendar, count });
+}
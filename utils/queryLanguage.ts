@@ -0,0 +1,331 @@
+import type { Entity } from './validationUtils';
+import { SearchFilter, SearchClause, FieldClause, FilterOperator, FilterValue, JoinRelation, JOIN_RELATIONS } from './searchFilter';
+
+// Structured search syntax that compiles to a SearchFilter without calling the AI:
+//
+//   tasks.Duration > 3 AND RequiredSkills has "React"
+//   workers.AvailableSlots includes 2
+//   clients.GroupTag in (Finance, Retail)
+//   tasks requestedBy (clients.PriorityLevel = 5)
+//
+// A field without an entity prefix belongs to the previous condition's entity (or the joined
+// entity inside parentheses), or to the only entity that has that column.
+
+export interface QueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export type QueryColumns = Record<Entity, string[]>;
+
+type TokenType = 'word' | 'string' | 'op' | 'lparen' | 'rparen' | 'comma' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+const ENTITIES: Entity[] = ['clients', 'workers', 'tasks'];
+
+const SYMBOL_OPERATORS: Record<string, FilterOperator> = {
+  '=': 'eq',
+  '==': 'eq',
+  '!=': 'neq',
+  '>': 'gt',
+  '>=': 'gte',
+  '<': 'lt',
+  '<=': 'lte',
+};
+
+const WORD_OPERATORS: Record<string, FilterOperator> = {
+  has: 'listContains',
+  includes: 'listContains',
+  contains: 'contains',
+  in: 'in',
+};
+
+// Own keys only, so words like 'toString' or 'constructor' don't resolve to Object.prototype members.
+const hasOwn = (table: object, key: string) => Object.prototype.hasOwnProperty.call(table, key);
+
+export const QUERY_OPERATORS = ['=', '!=', '>', '>=', '<', '<=', 'has', 'includes', 'contains', 'in'];
+
+class QueryParseError extends Error {
+  constructor(message: string, public start: number, public end: number) {
+    super(message);
+  }
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '(' || ch === ')' || ch === ',') {
+      tokens.push({ type: ch === '(' ? 'lparen' : ch === ')' ? 'rparen' : 'comma', value: ch, start: i, end: i + 1 });
+      i++;
+    } else if (ch === '"' || ch === "'") {
+      const close = text.indexOf(ch, i + 1);
+      if (close === -1) throw new QueryParseError('Unterminated string', i, text.length);
+      tokens.push({ type: 'string', value: text.slice(i + 1, close), start: i, end: close + 1 });
+      i = close + 1;
+    } else if (/[=<>!]/.test(ch)) {
+      const op = text.slice(i).match(/^(==|!=|>=|<=|=|>|<)/);
+      if (!op) throw new QueryParseError(`Unexpected '${ch}'`, i, i + 1);
+      tokens.push({ type: 'op', value: op[1], start: i, end: i + op[1].length });
+      i += op[1].length;
+    } else {
+      const word = text.slice(i).match(/^[^\s(),=<>!"']+/)![0];
+      tokens.push({ type: 'word', value: word, start: i, end: i + word.length });
+      i += word.length;
+    }
+  }
+  tokens.push({ type: 'eof', value: '', start: text.length, end: text.length });
+  return tokens;
+}
+
+const isKeyword = (token: Token, keyword: string) => token.type === 'word' && token.value.toLowerCase() === keyword;
+
+class Parser {
+  private pos = 0;
+
+  constructor(private tokens: Token[], private columns: QueryColumns) {}
+
+  private peek(offset = 0) {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private next() {
+    return this.tokens[this.pos++];
+  }
+
+  private fail(message: string, token = this.peek()): never {
+    throw new QueryParseError(message, token.start, Math.max(token.end, token.start + 1));
+  }
+
+  parseQuery(): SearchClause[] {
+    const clauses = this.parseConditions(null);
+    if (this.peek().type !== 'eof') this.fail(`Expected AND or end of query, found '${this.peek().value}'`);
+    return clauses;
+  }
+
+  // `scope` is the joined entity inside parentheses; conditions there can't leave it.
+  private parseConditions(scope: Entity | null): SearchClause[] {
+    const clauses: SearchClause[] = [];
+    let context: Entity | null = scope;
+    for (;;) {
+      const clause = this.parseCondition(context, scope);
+      clauses.push(clause);
+      context = clause.entity;
+      if (isKeyword(this.peek(), 'and')) {
+        this.next();
+        continue;
+      }
+      if (isKeyword(this.peek(), 'or')) this.fail('OR is not supported; use IN (a, b) for alternatives');
+      return clauses;
+    }
+  }
+
+  private parseCondition(context: Entity | null, scope: Entity | null): SearchClause {
+    const first = this.peek();
+    if (first.type !== 'word') this.fail('Expected a field such as tasks.Duration');
+
+    const relationName = this.peek(1).type === 'word' ? this.peek(1).value : '';
+    if (ENTITIES.includes(first.value as Entity) && hasOwn(JOIN_RELATIONS, relationName)) {
+      return this.parseJoin(scope);
+    }
+
+    const { entity, field } = this.parseFieldRef(context, scope);
+    const opToken = this.next();
+    const opName = opToken.type === 'word' ? opToken.value.toLowerCase() : opToken.value;
+    const operators = opToken.type === 'op' ? SYMBOL_OPERATORS : opToken.type === 'word' ? WORD_OPERATORS : {};
+    const op: FilterOperator | undefined = hasOwn(operators, opName) ? operators[opName] : undefined;
+    if (!op) this.fail(`Expected an operator (${QUERY_OPERATORS.join(' ')})`, opToken);
+
+    const value = this.parseValue(op);
+    return { kind: 'field', entity, field, op, value };
+  }
+
+  private parseJoin(scope: Entity | null): SearchClause {
+    const entityToken = this.next();
+    const relationToken = this.next();
+    const entity = entityToken.value as Entity;
+    const relation = relationToken.value as JoinRelation;
+    if (scope && entity !== scope) this.fail(`Only ${scope} conditions are allowed here`, entityToken);
+    if (JOIN_RELATIONS[relation].from !== entity) {
+      const valid = Object.keys(JOIN_RELATIONS).filter(r => JOIN_RELATIONS[r as JoinRelation].from === entity);
+      this.fail(`${entity} can't use '${relation}'; try ${valid.join(' or ')}`, relationToken);
+    }
+    if (this.peek().type !== 'lparen') this.fail(`Expected '(' after ${relation}`);
+    this.next();
+    const where = this.parseConditions(JOIN_RELATIONS[relation].to);
+    if (this.peek().type !== 'rparen') this.fail("Expected ')'");
+    this.next();
+    if (where.some(w => w.kind !== 'field')) this.fail('Joins cannot be nested', relationToken);
+    return { kind: 'join', entity, relation, where: where as FieldClause[] };
+  }
+
+  private parseFieldRef(context: Entity | null, scope: Entity | null): { entity: Entity; field: string } {
+    const token = this.next();
+    const parts = token.value.split('.');
+    let entity: Entity;
+    let field: string;
+    if (ENTITIES.includes(parts[0] as Entity)) {
+      entity = parts[0] as Entity;
+      field = parts.slice(1).join('.');
+      if (!field) this.fail(`Expected a column after '${entity}.'`, token);
+    } else {
+      field = token.value;
+      const base = parts[0];
+      const owners = ENTITIES.filter(e => this.columns[e].includes(base));
+      if (context && this.columns[context].includes(base)) entity = context;
+      else if (owners.length === 1) entity = owners[0];
+      else if (owners.length > 1) this.fail(`'${base}' is ambiguous; prefix it with ${owners.join(' or ')}.`, token);
+      else this.fail(`Unknown field '${base}'`, token);
+    }
+    if (scope && entity !== scope) this.fail(`Only ${scope} fields are allowed here`, token);
+    if (!this.columns[entity].includes(field.split('.')[0])) this.fail(`Unknown ${entity} field '${field}'`, token);
+    return { entity, field };
+  }
+
+  private parseLiteral(): string | number {
+    const token = this.next();
+    if (token.type === 'string') return token.value;
+    if (token.type === 'word') return /^-?\d+(\.\d+)?$/.test(token.value) ? Number(token.value) : token.value;
+    this.fail('Expected a value', token);
+  }
+
+  private parseValue(op: FilterOperator): FilterValue {
+    if (this.peek().type !== 'lparen') {
+      const value = this.parseLiteral();
+      return op === 'in' ? [value] : value;
+    }
+    const open = this.next();
+    const values: (string | number)[] = [this.parseLiteral()];
+    while (this.peek().type === 'comma') {
+      this.next();
+      values.push(this.parseLiteral());
+    }
+    if (this.peek().type !== 'rparen') this.fail("Expected ',' or ')'");
+    this.next();
+    if (op !== 'in' && op !== 'listContains' && values.length > 1) {
+      throw new QueryParseError('Only in, has and includes take a list of values', open.start, this.peek(-1).end);
+    }
+    return values.length === 1 && op !== 'in' ? values[0] : values;
+  }
+}
+
+export function parseQuery(text: string, columns: QueryColumns): { filter: SearchFilter | null; error: QueryError | null } {
+  try {
+    const clauses = new Parser(tokenize(text), columns).parseQuery();
+    return { filter: { clauses }, error: null };
+  } catch (e) {
+    if (e instanceof QueryParseError) return { filter: null, error: { message: e.message, start: e.start, end: e.end } };
+    throw e;
+  }
+}
+
+// Queries that start with an entity prefix are structured; anything else goes to the AI search.
+export function looksLikeQuery(text: string): boolean {
+  return /^\s*(clients|workers|tasks)(\.|\s+(requestedBy|requests|qualifiedFor|staffableBy)\b)/.test(text);
+}
+
+export interface QueryCompletion {
+  // Range of the text the chosen option replaces.
+  from: number;
+  to: number;
+  options: string[];
+}
+
+// Suggests what can follow the cursor: entities and columns where a field is expected, operators
+// after a field, AND after a value.
+export function getQueryCompletions(text: string, cursor: number, columns: QueryColumns): QueryCompletion {
+  const before = text.slice(0, cursor);
+  const wordMatch = before.match(/[^\s(),=<>!"']*$/);
+  const word = wordMatch ? wordMatch[0] : '';
+  const from = cursor - word.length;
+
+  let tokens: Token[];
+  try {
+    tokens = tokenize(text.slice(0, from)).filter(t => t.type !== 'eof');
+  } catch {
+    return { from, to: cursor, options: [] };
+  }
+
+  // Walk the tokens with a small state machine to know what is expected next.
+  let expect: 'field' | 'op' | 'value' | 'and' | 'relation' | 'lparen' = 'field';
+  let context: Entity | null = null;
+  let inValueList = false;
+  for (const token of tokens) {
+    if (inValueList) {
+      if (token.type === 'rparen') {
+        inValueList = false;
+        expect = 'and';
+      }
+      continue;
+    }
+    switch (expect) {
+      case 'field':
+        if (token.type === 'word') {
+          const head = token.value.split('.')[0];
+          if (ENTITIES.includes(head as Entity)) context = head as Entity;
+          expect = ENTITIES.includes(token.value as Entity) ? 'relation' : 'op';
+        }
+        break;
+      case 'relation':
+        if (token.type === 'word' && hasOwn(JOIN_RELATIONS, token.value)) {
+          context = JOIN_RELATIONS[token.value as JoinRelation].to;
+          expect = 'lparen';
+        } else {
+          expect = 'value';
+        }
+        break;
+      case 'lparen':
+        expect = 'field';
+        break;
+      case 'op':
+        expect = 'value';
+        break;
+      case 'value':
+        if (token.type === 'lparen') inValueList = true;
+        else expect = 'and';
+        break;
+      case 'and':
+        if (isKeyword(token, 'and')) expect = 'field';
+        else if (token.type === 'rparen') expect = 'and';
+        break;
+    }
+  }
+
+  const lower = word.toLowerCase();
+  let options: string[] = [];
+  if (inValueList || expect === 'value' || expect === 'lparen') {
+    options = expect === 'lparen' ? ['('] : [];
+  } else if (expect === 'field') {
+    if (word.includes('.')) {
+      const [head] = word.split('.');
+      if (ENTITIES.includes(head as Entity)) options = columns[head as Entity].map(c => `${head}.${c}`);
+    } else {
+      options = [
+        ...ENTITIES.map(e => `${e}.`),
+        ...(context ? columns[context] : []),
+      ];
+    }
+  } else if (expect === 'relation') {
+    options = [...Object.keys(JOIN_RELATIONS).filter(r => JOIN_RELATIONS[r as JoinRelation].from === context), ...QUERY_OPERATORS];
+  } else if (expect === 'op') {
+    options = QUERY_OPERATORS;
+  } else if (expect === 'and') {
+    options = ['AND'];
+  }
+
+  return {
+    from,
+    to: cursor,
+    options: options.filter(o => o.toLowerCase().startsWith(lower) && o.toLowerCase() !== lower).slice(0, 12),
+  };
+}
@@ -0,0 +1,48 @@
+// Every row carries an internal key in `__rowKey`, independent of its business ID. The name is
+// reserved so an uploaded column such as `id` is kept as data rather than overwritten. Validation
+// errors, AI and auto-fix suggestions, search results and edits all point at rows by this key, so
+// they stay on the right row when business IDs are blank, duplicated or edited, and when rows are
+// sorted, filtered or merged.
+
+export const ROW_KEY_FIELD = '__rowKey';
+
+// Keys are unique within a session by the counter and across sessions by the tag, which matters
+// because saved workspaces bring their keys with them.
+const SESSION_TAG = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+let nextKey = 0;
+
+export function createRowKey(): string {
+  return `r-${SESSION_TAG}-${(nextKey++).toString(36)}`;
+}
+
+// Falls back to the row's position for rows that never got a key (e.g. raw parsed files).
+export function rowKeyOf(row: any, idx: number): string {
+  const key = row?.[ROW_KEY_FIELD];
+  return key !== undefined && key !== null && key !== '' ? String(key) : `#${idx}`;
+}
+
+export function assignRowKeys<T extends Record<string, any>>(rows: readonly T[]): T[] {
+  return rows.map(row => ({ ...row, [ROW_KEY_FIELD]: createRowKey() }));
+}
+
+// Gives a key to rows without one and re-keys later duplicates; rows that are fine are kept as is.
+export function ensureRowKeys<T extends Record<string, any>>(rows: readonly T[]): T[] {
+  const seen = new Set<string>();
+  let changed = false;
+  const keyed = rows.map(row => {
+    const key = row?.[ROW_KEY_FIELD];
+    if (key !== undefined && key !== null && key !== '' && !seen.has(String(key))) {
+      seen.add(String(key));
+      return row;
+    }
+    changed = true;
+    const fresh = createRowKey();
+    seen.add(fresh);
+    return { ...row, [ROW_KEY_FIELD]: fresh };
+  });
+  return changed ? keyed : [...rows];
+}
+
+export function findRowIndex(rows: readonly any[], key: string): number {
+  return rows.findIndex((row, idx) => rowKeyOf(row, idx) === key);
+}
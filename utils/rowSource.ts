@@ -0,0 +1,34 @@
+// Where an uploaded row came from, kept on the row itself so it survives sorting, filtering,
+// edits and workspace saves. Validation messages use it to point at the line in the user's file.
+
+export const SOURCE_FIELD = '__source';
+
+export interface RowSource {
+  file: string;
+  sheet?: string;
+  // 1-based line in a text file, row number in a spreadsheet, or position in a JSON array.
+  line: number;
+  // Parser problems on this row: ragged fields, unterminated quotes, coerced cell types.
+  issues?: string[];
+}
+
+export function sourceOf(row: any): RowSource | undefined {
+  const source = row?.[SOURCE_FIELD];
+  return source && typeof source === 'object' && typeof source.file === 'string' ? source : undefined;
+}
+
+export function withSource<T extends Record<string, any>>(row: T, source: RowSource): T {
+  return { ...row, [SOURCE_FIELD]: source };
+}
+
+export function describeSource(source: RowSource): string {
+  if (source.sheet) return `${source.file} › ${source.sheet} row ${source.line}`;
+  if (/\.json$/i.test(source.file)) return `${source.file} item ${source.line}`;
+  return `${source.file} line ${source.line}`;
+}
+
+// "5" for a row without provenance, "5 (clients.csv line 7)" for an uploaded one.
+export function rowNumber(row: any, idx: number): string {
+  const source = sourceOf(row);
+  return source ? `${idx + 1} (${describeSource(source)})` : String(idx + 1);
+}
@@ -0,0 +1,290 @@
+import type { Rule } from '../components/RuleBuilder';
+import { parseList } from './parseUtils';
+import { buildAllocationModel, intersect } from './allocationSolver';
+import type { PhaseCalendar } from './phaseCalendar';
+import { computeRulePrecedence, remapRuleReferences, resolveRules, ResolvedRule } from './ruleUtils';
+
+export type RuleIssueKind = 'conflict' | 'duplicate' | 'subsumed';
+
+export interface RuleResolution {
+  label: string;
+  removeIndices: number[];
+  mergedRule?: Rule;
+}
+
+export interface RuleIssue {
+  kind: RuleIssueKind;
+  ruleIndices: number[];
+  message: string;
+  // Index of the rule that wins through priority / precedenceOverride, if any.
+  winner?: number;
+  resolutions: RuleResolution[];
+}
+
+interface RuleData {
+  clients: any[];
+  workers: any[];
+  tasks: any[];
+  calendar?: PhaseCalendar;
+}
+
+function sameSet<T>(a: T[], b: T[]): boolean {
+  return a.length === b.length && a.every(x => b.includes(x));
+}
+
+function isSubset<T>(a: T[], b: T[]): boolean {
+  return a.every(x => b.includes(x));
+}
+
+function ruleLabel(index: number): string {
+  return `#${index + 1}`;
+}
+
+// Finds contradictory, duplicate and redundant rules across the whole rule list. Pattern rules
+// take part through their expansion; merge actions are only offered between directly authored rules.
+export function analyzeRules(rules: Rule[], data: RuleData): RuleIssue[] {
+  const issues: RuleIssue[] = [];
+  const precedence = computeRulePrecedence(rules);
+  const resolved = resolveRules(rules, data);
+  const seenPairs = new Set<string>();
+
+  const isDirect = (r: ResolvedRule) => rules[r.index]?.type === r.rule.type;
+  const pairKey = (a: ResolvedRule, b: ResolvedRule) => `${Math.min(a.index, b.index)}:${Math.max(a.index, b.index)}`;
+  const winnerOf = (a: number, b: number) =>
+    precedence[a] === precedence[b] ? undefined : (precedence[a] > precedence[b] ? a : b);
+
+  function addIssue(issue: RuleIssue, a: ResolvedRule, b: ResolvedRule) {
+    if (a.index === b.index) return;
+    const key = `${issue.kind}:${pairKey(a, b)}`;
+    if (seenPairs.has(key)) return;
+    seenPairs.add(key);
+    issues.push(issue);
+  }
+
+  function removeEither(a: number, b: number, winner?: number): RuleResolution[] {
+    if (winner !== undefined) {
+      const loser = winner === a ? b : a;
+      return [{ label: `Remove ${ruleLabel(loser)} (lower precedence)`, removeIndices: [loser] }];
+    }
+    return [
+      { label: `Remove ${ruleLabel(a)}`, removeIndices: [a] },
+      { label: `Remove ${ruleLabel(b)}`, removeIndices: [b] },
+    ];
+  }
+
+  // --- Exact duplicates ---
+  rules.forEach((rule, i) => {
+    rules.forEach((other, j) => {
+      if (j <= i) return;
+      const { priority: _p1, ...a } = rule as any;
+      const { priority: _p2, ...b } = other as any;
+      if (JSON.stringify(a) === JSON.stringify(b)) {
+        seenPairs.add(`duplicate:${i}:${j}`);
+        issues.push({
+          kind: 'duplicate',
+          ruleIndices: [i, j],
+          message: `Rules ${ruleLabel(i)} and ${ruleLabel(j)} are identical`,
+          resolutions: [{ label: `Remove ${ruleLabel(j)}`, removeIndices: [j] }],
+        });
+      }
+    });
+  });
+
+  const byType = <T extends ResolvedRule['rule']['type']>(type: T) =>
+    resolved.filter(r => r.rule.type === type) as (ResolvedRule & { rule: Extract<ResolvedRule['rule'], { type: T }> })[];
+
+  // --- Phase windows on the same task ---
+  const phaseWindows = byType('phaseWindow');
+  phaseWindows.forEach((a, i) => {
+    phaseWindows.slice(i + 1).forEach(b => {
+      if (a.rule.task !== b.rule.task || seenPairs.has(`duplicate:${pairKey(a, b)}`)) return;
+      const pa = a.rule.allowedPhases;
+      const pb = b.rule.allowedPhases;
+      const common = pa.filter(p => pb.includes(p));
+      const winner = winnerOf(a.index, b.index);
+      if (common.length === 0) {
+        addIssue({
+          kind: 'conflict',
+          ruleIndices: [a.index, b.index],
+          message: `Phase windows ${ruleLabel(a.index)} (${pa.join(', ')}) and ${ruleLabel(b.index)} (${pb.join(', ')}) on ${a.rule.task} are disjoint` +
+            (winner !== undefined ? `; ${ruleLabel(winner)} wins by precedence` : ''),
+          winner,
+          resolutions: removeEither(a.index, b.index, winner),
+        }, a, b);
+      } else if (sameSet(pa, pb)) {
+        addIssue({
+          kind: 'duplicate',
+          ruleIndices: [a.index, b.index],
+          message: `Phase windows ${ruleLabel(a.index)} and ${ruleLabel(b.index)} allow the same phases for ${a.rule.task}`,
+          resolutions: [{ label: `Remove ${ruleLabel(Math.max(a.index, b.index))}`, removeIndices: [Math.max(a.index, b.index)] }],
+        }, a, b);
+      } else if (isSubset(pa, pb) || isSubset(pb, pa)) {
+        const [narrow, broad] = isSubset(pa, pb) ? [a, b] : [b, a];
+        addIssue({
+          kind: 'subsumed',
+          ruleIndices: [broad.index, narrow.index],
+          message: `Phase window ${ruleLabel(broad.index)} is redundant: ${ruleLabel(narrow.index)} already restricts ${a.rule.task} further`,
+          resolutions: [{ label: `Remove ${ruleLabel(broad.index)}`, removeIndices: [broad.index] }],
+        }, a, b);
+      } else if (isDirect(a) && isDirect(b)) {
+        addIssue({
+          kind: 'conflict',
+          ruleIndices: [a.index, b.index],
+          message: `Phase windows ${ruleLabel(a.index)} and ${ruleLabel(b.index)} on ${a.rule.task} only overlap in phases ${common.join(', ')}`,
+          winner,
+          resolutions: [
+            {
+              label: `Merge into phases ${common.join(', ')}`,
+              removeIndices: [a.index, b.index],
+              mergedRule: { type: 'phaseWindow', task: a.rule.task, allowedPhases: common },
+            },
+            ...removeEither(a.index, b.index, winner),
+          ],
+        }, a, b);
+      }
+    });
+  });
+
+  // --- Load limits on the same group ---
+  const loadLimits = byType('loadLimit');
+  loadLimits.forEach((a, i) => {
+    loadLimits.slice(i + 1).forEach(b => {
+      if (a.rule.group !== b.rule.group || seenPairs.has(`duplicate:${pairKey(a, b)}`)) return;
+      const winner = winnerOf(a.index, b.index);
+      if (a.rule.maxSlotsPerPhase === b.rule.maxSlotsPerPhase) {
+        addIssue({
+          kind: 'duplicate',
+          ruleIndices: [a.index, b.index],
+          message: `Load limits ${ruleLabel(a.index)} and ${ruleLabel(b.index)} set the same limit on ${a.rule.group}`,
+          resolutions: [{ label: `Remove ${ruleLabel(Math.max(a.index, b.index))}`, removeIndices: [Math.max(a.index, b.index)] }],
+        }, a, b);
+        return;
+      }
+      const stricter = Math.min(a.rule.maxSlotsPerPhase, b.rule.maxSlotsPerPhase);
+      addIssue({
+        kind: 'conflict',
+        ruleIndices: [a.index, b.index],
+        message: `Load limits ${ruleLabel(a.index)} (${a.rule.maxSlotsPerPhase}) and ${ruleLabel(b.index)} (${b.rule.maxSlotsPerPhase}) disagree on ${a.rule.group}` +
+          (winner !== undefined ? `; ${ruleLabel(winner)} wins by precedence` : ''),
+        winner,
+        resolutions: [
+          ...(isDirect(a) && isDirect(b) ? [{
+            label: `Merge into limit ${stricter}`,
+            removeIndices: [a.index, b.index],
+            mergedRule: { type: 'loadLimit' as const, group: a.rule.group, maxSlotsPerPhase: stricter },
+          }] : []),
+          ...removeEither(a.index, b.index, winner),
+        ],
+      }, a, b);
+    });
+  });
+
+  // --- Slot restrictions on the same group ---
+  const slotRestrictions = byType('slotRestriction');
+  slotRestrictions.forEach((a, i) => {
+    slotRestrictions.slice(i + 1).forEach(b => {
+      if (a.rule.group !== b.rule.group || seenPairs.has(`duplicate:${pairKey(a, b)}`)) return;
+      if (a.rule.minCommonSlots === b.rule.minCommonSlots) {
+        addIssue({
+          kind: 'duplicate',
+          ruleIndices: [a.index, b.index],
+          message: `Slot restrictions ${ruleLabel(a.index)} and ${ruleLabel(b.index)} are equivalent for ${a.rule.group}`,
+          resolutions: [{ label: `Remove ${ruleLabel(Math.max(a.index, b.index))}`, removeIndices: [Math.max(a.index, b.index)] }],
+        }, a, b);
+        return;
+      }
+      const [weaker, stronger] = a.rule.minCommonSlots < b.rule.minCommonSlots ? [a, b] : [b, a];
+      addIssue({
+        kind: 'subsumed',
+        ruleIndices: [weaker.index, stronger.index],
+        message: `Slot restriction ${ruleLabel(weaker.index)} is implied by ${ruleLabel(stronger.index)} (${stronger.rule.minCommonSlots} common slots)`,
+        resolutions: [{ label: `Remove ${ruleLabel(weaker.index)}`, removeIndices: [weaker.index] }],
+      }, a, b);
+    });
+  });
+
+  // --- Co-run sets ---
+  const coRuns = byType('coRun');
+  coRuns.forEach((a, i) => {
+    coRuns.slice(i + 1).forEach(b => {
+      if (seenPairs.has(`duplicate:${pairKey(a, b)}`)) return;
+      const ta = a.rule.tasks;
+      const tb = b.rule.tasks;
+      if (sameSet(ta, tb)) {
+        addIssue({
+          kind: 'duplicate',
+          ruleIndices: [a.index, b.index],
+          message: `Co-run rules ${ruleLabel(a.index)} and ${ruleLabel(b.index)} group the same tasks`,
+          resolutions: [{ label: `Remove ${ruleLabel(Math.max(a.index, b.index))}`, removeIndices: [Math.max(a.index, b.index)] }],
+        }, a, b);
+      } else if (isSubset(ta, tb) || isSubset(tb, ta)) {
+        const [inner, outer] = isSubset(ta, tb) ? [a, b] : [b, a];
+        addIssue({
+          kind: 'subsumed',
+          ruleIndices: [inner.index, outer.index],
+          message: `Co-run ${ruleLabel(inner.index)} is contained in ${ruleLabel(outer.index)}`,
+          resolutions: [{ label: `Remove ${ruleLabel(inner.index)}`, removeIndices: [inner.index] }],
+        }, a, b);
+      } else if (ta.some(t => tb.includes(t)) && isDirect(a) && isDirect(b)) {
+        const union = [...new Set([...ta, ...tb])];
+        addIssue({
+          kind: 'subsumed',
+          ruleIndices: [a.index, b.index],
+          message: `Co-run ${ruleLabel(a.index)} and ${ruleLabel(b.index)} share tasks, so all of ${union.join(', ')} run together`,
+          resolutions: [{
+            label: 'Merge into one co-run',
+            removeIndices: [a.index, b.index],
+            mergedRule: { type: 'coRun', tasks: union },
+          }],
+        }, a, b);
+      }
+    });
+  });
+
+  // Co-run sets whose tasks have no phase in common once phase windows are applied. The phases
+  // come from the solver's own model, so this flags exactly the co-runs it can never place.
+  const model = buildAllocationModel({ ...data, rules });
+  coRuns.forEach(coRun => {
+    const members = coRun.rule.tasks.map(taskId => model.tasks.get(taskId)).filter(task => task !== undefined);
+    const windowIndices = [...new Set(members.flatMap(task => model.phaseWindows.get(task.id)?.ruleIndices ?? []))];
+    if (windowIndices.length === 0 || members.length < 2) return;
+    const phaseLists = members.map(task => {
+      const window = model.phaseWindows.get(task.id);
+      return window ? intersect(task.phases, window.phases) : task.phases;
+    });
+    const common = phaseLists.reduce((acc, list) => intersect(acc, list));
+    if (common.length === 0) {
+      issues.push({
+        kind: 'conflict',
+        ruleIndices: [coRun.index, ...windowIndices],
+        message: `Co-run ${ruleLabel(coRun.index)} (${parseList(coRun.rule.tasks).join(', ')}) has no shared phase once phase windows ${windowIndices.map(ruleLabel).join(', ')} apply`,
+        resolutions: [
+          { label: `Remove ${ruleLabel(coRun.index)}`, removeIndices: [coRun.index] },
+          ...windowIndices.map(idx => ({ label: `Remove ${ruleLabel(idx)}`, removeIndices: [idx] })),
+        ],
+      });
+    }
+  });
+
+  return issues;
+}
+
+// Applies a resolution to the rule list; a merged rule takes the place of the first removed rule,
+// and overrides that pointed at a merged rule point at the merged one.
+export function applyRuleResolution(rules: Rule[], resolution: RuleResolution): Rule[] {
+  const insertAt = Math.min(...resolution.removeIndices);
+  const result: Rule[] = [];
+  const newIndex = new Map<number, number>();
+  let mergedAt: number | undefined;
+  rules.forEach((rule, idx) => {
+    if (idx === insertAt && resolution.mergedRule) {
+      mergedAt = result.length;
+      result.push(resolution.mergedRule);
+    }
+    if (!resolution.removeIndices.includes(idx)) {
+      newIndex.set(idx, result.length);
+      result.push(rule);
+    }
+  });
+  return remapRuleReferences(result, idx => (newIndex.has(idx) ? newIndex.get(idx) : mergedAt));
+}
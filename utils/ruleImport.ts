@@ -0,0 +1,197 @@
+import type { Rule } from '../components/RuleBuilder';
+import type { Weights } from '../components/PrioritizationSliders';
+import { parseList, parseNumberList } from './parseUtils';
+import { compilePattern, remapRuleReferences, RULE_TYPE_NAMES } from './ruleUtils';
+import { normalizePhaseCalendar, PhaseCalendar } from './phaseCalendar';
+
+export type ImportedRuleStatus = 'valid' | 'invalid' | 'unresolved';
+
+export interface ImportedRuleEntry {
+  index: number;
+  status: ImportedRuleStatus;
+  raw: any;
+  rule?: Rule;
+  // The rule with references to missing TaskIDs/groups stripped, when that still leaves a usable rule.
+  reconciled?: Rule;
+  messages: string[];
+}
+
+export interface RuleImportResult {
+  entries: ImportedRuleEntry[];
+  weights: Weights | null;
+  weightMessages: string[];
+  phaseCalendar: PhaseCalendar | null;
+  metadata: Record<string, any> | null;
+}
+
+interface RuleImportData {
+  clients: any[];
+  workers: any[];
+  tasks: any[];
+}
+
+const WEIGHT_KEYS: (keyof Weights)[] = ['priority', 'fulfillment', 'fairness', 'cost', 'duration', 'quality', 'efficiency'];
+
+function optionalPriority(entry: any): { priority?: number } {
+  return entry.priority === undefined ? {} : { priority: Number(entry.priority) };
+}
+
+// Checks one entry against the Rule union, coercing the loose shapes older exports and the
+// AI endpoints produce (comma-separated phases, numeric strings).
+export function parseRuleEntry(entry: any): { rule?: Rule; error?: string } {
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) return { error: 'Entry is not an object' };
+  if (!RULE_TYPE_NAMES.includes(entry.type)) return { error: `Unknown rule type '${entry.type}'` };
+  if (entry.priority !== undefined && isNaN(Number(entry.priority))) return { error: 'priority must be a number' };
+
+  switch (entry.type) {
+    case 'coRun': {
+      const tasks = parseList(entry.tasks);
+      if (tasks.length < 2) return { error: 'coRun needs at least 2 tasks' };
+      return { rule: { type: 'coRun', tasks, ...optionalPriority(entry) } };
+    }
+    case 'slotRestriction': {
+      const minCommonSlots = Number(entry.minCommonSlots);
+      if (!entry.group) return { error: 'slotRestriction needs a group' };
+      if (!Number.isInteger(minCommonSlots) || minCommonSlots < 1) return { error: 'minCommonSlots must be a positive integer' };
+      return { rule: { type: 'slotRestriction', group: String(entry.group), minCommonSlots, ...optionalPriority(entry) } };
+    }
+    case 'loadLimit': {
+      const maxSlotsPerPhase = Number(entry.maxSlotsPerPhase);
+      if (!entry.group) return { error: 'loadLimit needs a group' };
+      if (!Number.isInteger(maxSlotsPerPhase) || maxSlotsPerPhase < 1) return { error: 'maxSlotsPerPhase must be a positive integer' };
+      return { rule: { type: 'loadLimit', group: String(entry.group), maxSlotsPerPhase, ...optionalPriority(entry) } };
+    }
+    case 'phaseWindow': {
+      const allowedPhases = parseNumberList(entry.allowedPhases);
+      if (!entry.task) return { error: 'phaseWindow needs a task' };
+      if (allowedPhases.length === 0) return { error: 'phaseWindow needs at least one allowed phase' };
+      return { rule: { type: 'phaseWindow', task: String(entry.task), allowedPhases, ...optionalPriority(entry) } };
+    }
+    case 'patternMatch': {
+      if (typeof entry.regex !== 'string' || !compilePattern(entry.regex)) return { error: `Invalid regex '${entry.regex}'` };
+      if (typeof entry.template !== 'string' || !entry.template) return { error: 'patternMatch needs a template' };
+      const parameters = entry.parameters ?? {};
+      if (typeof parameters !== 'object' || Array.isArray(parameters)) return { error: 'parameters must be an object' };
+      return { rule: { type: 'patternMatch', regex: entry.regex, template: entry.template, parameters, ...optionalPriority(entry) } };
+    }
+    case 'precedenceOverride': {
+      const globalRules = parseList(entry.globalRules);
+      const specificRules = parseList(entry.specificRules);
+      if (globalRules.length === 0 && specificRules.length === 0) return { error: 'precedenceOverride references no rules' };
+      return { rule: { type: 'precedenceOverride', globalRules, specificRules, ...optionalPriority(entry) } };
+    }
+    default:
+      return { error: `Unknown rule type '${entry.type}'` };
+  }
+}
+
+function reconcileRule(rule: Rule, data: RuleImportData): { messages: string[]; reconciled?: Rule } {
+  const taskIds = new Set(data.tasks.map(t => String(t.TaskID)));
+  const workerGroups = new Set(data.workers.map(w => w.WorkerGroup).filter(Boolean).map(String));
+  const clientGroups = new Set(data.clients.map(c => c.GroupTag).filter(Boolean).map(String));
+
+  switch (rule.type) {
+    case 'coRun': {
+      const missing = rule.tasks.filter(t => !taskIds.has(t));
+      if (missing.length === 0) return { messages: [] };
+      const remaining = rule.tasks.filter(t => taskIds.has(t));
+      return {
+        messages: [`Unknown task(s): ${missing.join(', ')}`],
+        reconciled: remaining.length >= 2 ? { ...rule, tasks: remaining } : undefined,
+      };
+    }
+    case 'phaseWindow':
+      return taskIds.has(rule.task) ? { messages: [] } : { messages: [`Unknown task: ${rule.task}`] };
+    case 'loadLimit':
+      return workerGroups.has(rule.group) ? { messages: [] } : { messages: [`Unknown worker group: ${rule.group}`] };
+    case 'slotRestriction':
+      return workerGroups.has(rule.group) || clientGroups.has(rule.group)
+        ? { messages: [] }
+        : { messages: [`Unknown group: ${rule.group}`] };
+    default:
+      return { messages: [] };
+  }
+}
+
+export const DEFAULT_WEIGHTS: Weights = {
+  priority: 5,
+  fulfillment: 5,
+  fairness: 5,
+  cost: 5,
+  duration: 5,
+  quality: 5,
+  efficiency: 5,
+};
+
+export function parseWeights(value: any): { weights: Weights | null; messages: string[] } {
+  if (value === undefined) return { weights: null, messages: ['File contains no weights'] };
+  if (!value || typeof value !== 'object') return { weights: null, messages: ['weights is not an object'] };
+  const messages: string[] = [];
+  const weights = {} as Weights;
+  for (const key of WEIGHT_KEYS) {
+    const n = typeof value[key] === 'number' || typeof value[key] === 'string' ? Number(value[key]) : NaN;
+    if (value[key] === '' || isNaN(n)) {
+      messages.push(`Weight '${key}' is missing or not a number; using ${DEFAULT_WEIGHTS[key]}`);
+      weights[key] = DEFAULT_WEIGHTS[key];
+    } else if (n < 1 || n > 10) {
+      messages.push(`Weight '${key}' (${n}) is outside 1-10 and was clamped`);
+      weights[key] = Math.min(10, Math.max(1, Math.round(n)));
+    } else {
+      weights[key] = n;
+    }
+  }
+  Object.keys(value).filter(key => !WEIGHT_KEYS.includes(key as keyof Weights)).forEach(key => {
+    messages.push(`Unknown weight '${key}' ignored`);
+  });
+  return { weights, messages };
+}
+
+// Parses a file written by "Export Rules as JSON" ({ rules, weights, phaseCalendar, metadata }). A bare rule
+// array is accepted too. Throws only when the file itself can't be read as that format.
+export function parseRulesFile(text: string, data: RuleImportData): RuleImportResult {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Rules file is not valid JSON');
+  }
+  const rawRules = Array.isArray(parsed) ? parsed : parsed?.rules;
+  if (!Array.isArray(rawRules)) {
+    throw new Error("Rules file has no 'rules' array");
+  }
+
+  const entries: ImportedRuleEntry[] = rawRules.map((raw, index) => {
+    const { rule, error } = parseRuleEntry(raw);
+    if (!rule) return { index, status: 'invalid', raw, messages: [error!] };
+    const { messages, reconciled } = reconcileRule(rule, data);
+    return {
+      index,
+      status: messages.length > 0 ? 'unresolved' : 'valid',
+      raw,
+      rule,
+      reconciled,
+      messages,
+    };
+  });
+
+  const { weights, messages: weightMessages } = Array.isArray(parsed)
+    ? { weights: null, messages: ['File contains no weights'] }
+    : parseWeights(parsed.weights);
+
+  return {
+    entries,
+    weights,
+    weightMessages,
+    phaseCalendar: !Array.isArray(parsed) && parsed.phaseCalendar ? normalizePhaseCalendar(parsed.phaseCalendar) : null,
+    metadata: !Array.isArray(parsed) && parsed.metadata && typeof parsed.metadata === 'object' ? parsed.metadata : null,
+  };
+}
+
+// Builds the final rule list from the entries the user kept. Precedence overrides that point at
+// imported rules by number are renumbered for the rules dropped and for rules already present.
+export function buildImportedRules(entries: ImportedRuleEntry[], included: Set<number>, existingCount: number): Rule[] {
+  const kept = entries.filter(entry => entry.rule && included.has(entry.index));
+  const newIndex = new Map<number, number>();
+  kept.forEach((entry, i) => newIndex.set(entry.index, existingCount + i));
+  return remapRuleReferences(kept.map(entry => entry.reconciled ?? entry.rule!), index => newIndex.get(index));
+}
@@ -0,0 +1,177 @@
+import type { Rule } from '../components/RuleBuilder';
+import { parseList, parseNumberList } from './parseUtils';
+
+// A concrete rule after pattern expansion, tagged with the index of the rule it came from
+// in the user's rule list and its resolved precedence (higher wins).
+export interface ResolvedRule {
+  rule: Exclude<Rule, { type: 'patternMatch' } | { type: 'precedenceOverride' }>;
+  index: number;
+  precedence: number;
+}
+
+interface RuleData {
+  clients: any[];
+  workers: any[];
+  tasks: any[];
+}
+
+export const RULE_TYPE_NAMES: Rule['type'][] = [
+  'coRun',
+  'slotRestriction',
+  'loadLimit',
+  'phaseWindow',
+  'patternMatch',
+  'precedenceOverride',
+];
+
+const POSITION_REFERENCE = /^(?:#|R|rule\s*)?(\d+)$/i;
+
+// Precedence overrides refer to other rules either by position ("1", "#1", "R1") or by type ("phaseWindow").
+export function resolveRuleReference(ref: string, rules: Rule[]): number[] {
+  const trimmed = ref.trim();
+  const indexMatch = trimmed.match(POSITION_REFERENCE);
+  if (indexMatch) {
+    const idx = Number(indexMatch[1]) - 1;
+    return idx >= 0 && idx < rules.length ? [idx] : [];
+  }
+  return rules
+    .map((rule, idx) => (String(rule?.type).toLowerCase() === trimmed.toLowerCase() ? idx : -1))
+    .filter(idx => idx >= 0);
+}
+
+// Rewrites positional references in precedence overrides after rules moved: `newIndex` maps an old
+// 0-based index to its new one, or to undefined for a rule that is gone, whose references are dropped.
+// References by type are kept as they are.
+export function remapRuleReferences(rules: Rule[], newIndex: (index: number) => number | undefined): Rule[] {
+  const remap = (refs: string[]) => refs
+    .map(ref => {
+      const match = ref.trim().match(POSITION_REFERENCE);
+      if (!match) return ref;
+      const index = newIndex(Number(match[1]) - 1);
+      return index !== undefined ? ref.trim().replace(/\d+$/, String(index + 1)) : null;
+    })
+    .filter((ref): ref is string => ref !== null);
+  return rules.map(rule =>
+    rule.type === 'precedenceOverride'
+      ? { ...rule, globalRules: remap(rule.globalRules || []), specificRules: remap(rule.specificRules || []) }
+      : rule
+  );
+}
+
+export function computeRulePrecedence(rules: Rule[]): number[] {
+  const precedence = rules.map(rule => rule.priority ?? 0);
+  rules.forEach(rule => {
+    if (rule.type !== 'precedenceOverride') return;
+    (rule.globalRules || []).forEach(ref => {
+      resolveRuleReference(ref, rules).forEach(idx => { precedence[idx] -= 1000; });
+    });
+    (rule.specificRules || []).forEach(ref => {
+      resolveRuleReference(ref, rules).forEach(idx => { precedence[idx] += 1000; });
+    });
+  });
+  return precedence;
+}
+
+export function compilePattern(regex: string): RegExp | null {
+  try {
+    return new RegExp(regex);
+  } catch {
+    return null;
+  }
+}
+
+export function expandPatternRule(rule: Extract<Rule, { type: 'patternMatch' }>, data: RuleData): ResolvedRule['rule'][] {
+  const pattern = compilePattern(rule.regex);
+  if (!pattern) return [];
+  const params = rule.parameters || {};
+  const matchingTasks = data.tasks
+    .filter(t => pattern.test(String(t.TaskID ?? '')) || pattern.test(String(t.TaskName ?? '')))
+    .map(t => String(t.TaskID));
+  const matchingGroups = [...new Set([
+    ...data.workers.map(w => w.WorkerGroup),
+    ...data.clients.map(c => c.GroupTag),
+  ].filter(Boolean).map(String))].filter(g => pattern.test(g));
+
+  switch (rule.template) {
+    case 'coRun':
+      return matchingTasks.length > 1 ? [{ type: 'coRun', tasks: matchingTasks, priority: rule.priority }] : [];
+    case 'phaseWindow':
+      return matchingTasks.map(task => ({
+        type: 'phaseWindow' as const,
+        task,
+        allowedPhases: parseNumberList(params.allowedPhases),
+        priority: rule.priority,
+      }));
+    case 'loadLimit':
+      return matchingGroups.map(group => ({
+        type: 'loadLimit' as const,
+        group,
+        maxSlotsPerPhase: Number(params.maxSlotsPerPhase ?? 1),
+        priority: rule.priority,
+      }));
+    case 'slotRestriction':
+      return matchingGroups.map(group => ({
+        type: 'slotRestriction' as const,
+        group,
+        minCommonSlots: Number(params.minCommonSlots ?? 1),
+        priority: rule.priority,
+      }));
+    default:
+      return [];
+  }
+}
+
+// Rules coming from the AI endpoints don't always match the declared shapes (e.g. phases as
+// "1,2" instead of [1, 2]), so list fields are coerced before use.
+function normalizeConcreteRule(rule: ResolvedRule['rule']): ResolvedRule['rule'] | null {
+  switch (rule.type) {
+    case 'coRun':
+      return { ...rule, tasks: parseList(rule.tasks) };
+    case 'phaseWindow':
+      return { ...rule, task: String(rule.task ?? ''), allowedPhases: parseNumberList(rule.allowedPhases) };
+    case 'loadLimit':
+      return { ...rule, group: String(rule.group ?? ''), maxSlotsPerPhase: Number(rule.maxSlotsPerPhase) };
+    case 'slotRestriction':
+      return { ...rule, group: String(rule.group ?? ''), minCommonSlots: Number(rule.minCommonSlots) };
+    default:
+      return null;
+  }
+}
+
+// Flattens the user's rule list into concrete rules: pattern rules are expanded against the
+// current data and precedence overrides are folded into each rule's precedence.
+export function resolveRules(rules: Rule[], data: RuleData): ResolvedRule[] {
+  const precedence = computeRulePrecedence(rules);
+  const resolved: ResolvedRule[] = [];
+  rules.forEach((rule, index) => {
+    if (!rule || rule.type === 'precedenceOverride') return;
+    if (rule.type === 'patternMatch') {
+      expandPatternRule(rule, data).forEach(expanded => {
+        resolved.push({ rule: expanded, index, precedence: precedence[index] });
+      });
+      return;
+    }
+    const normalized = normalizeConcreteRule(rule);
+    if (normalized) resolved.push({ rule: normalized, index, precedence: precedence[index] });
+  });
+  return resolved;
+}
+
+export function describeRule(rule: Rule): string {
+  switch (rule.type) {
+    case 'coRun':
+      return `Co-run ${parseList(rule.tasks).join(', ')}`;
+    case 'slotRestriction':
+      return `Slot restriction on ${rule.group} (min ${rule.minCommonSlots} common slots)`;
+    case 'loadLimit':
+      return `Load limit on ${rule.group} (max ${rule.maxSlotsPerPhase} per phase)`;
+    case 'phaseWindow':
+      return `Phase window for ${rule.task} (phases ${parseNumberList(rule.allowedPhases).join(', ')})`;
+    case 'patternMatch':
+      return `Pattern /${rule.regex}/ → ${rule.template}`;
+    case 'precedenceOverride':
+      return `Precedence override (${(rule.specificRules || []).join(', ') || '-'} over ${(rule.globalRules || []).join(', ') || '-'})`;
+    default:
+      return JSON.stringify(rule);
+  }
+}
@@ -0,0 +1,281 @@
+import type { Rule } from '../components/RuleBuilder';
+import { parseList, parseNumberList, parseNumber } from './parseUtils';
+import { normalizeData, NormalizedData, NormalizedTask } from './normalizeData';
+import { DEFAULT_PHASE_CALENDAR, inCalendar, isBlackout, PhaseCalendar } from './phaseCalendar';
+import { compilePattern, expandPatternRule, resolveRuleReference, RULE_TYPE_NAMES } from './ruleUtils';
+
+interface ValidateRulesArgs {
+  clients: any[];
+  workers: any[];
+  tasks: any[];
+  rules: Rule[];
+  calendar?: PhaseCalendar;
+  // Already normalized rows, when the caller has them.
+  data?: NormalizedData;
+}
+
+export interface RuleValidationResult {
+  ruleErrors: { [ruleIndex: number]: string[] };
+  // How to fix each error, in the same positions as ruleErrors.
+  ruleHints: { [ruleIndex: number]: string[] };
+  summary: string[];
+  suggestions: string[];
+}
+
+function intersectAll(lists: number[][]): number[] {
+  if (lists.length === 0) return [];
+  return lists.reduce((acc, list) => acc.filter(x => list.includes(x)));
+}
+
+// Evaluates every rule against the current data. Errors are keyed by the rule's index in
+// the rule list so the rule builder can show them next to the offending rule.
+export function validateRules({ clients, workers, tasks, rules, calendar = DEFAULT_PHASE_CALENDAR, data }: ValidateRulesArgs): RuleValidationResult {
+  const ruleErrors: RuleValidationResult['ruleErrors'] = {};
+  const ruleHints: RuleValidationResult['ruleHints'] = {};
+  const summary: string[] = [];
+  const suggestions: string[] = [];
+
+  const { clients: normClients, workers: normWorkers, tasks: normTasks } = data ?? normalizeData({ clients, workers, tasks }, undefined, calendar);
+  const tasksById = new Map<string, NormalizedTask>(normTasks.filter(t => t.id).map(t => [t.id, t]));
+  const workerGroups = new Set(normWorkers.map(w => w.group).filter(Boolean));
+  const clientGroups = new Set(normClients.map(c => c.groupTag).filter(Boolean));
+  const workerPhases = new Set(normWorkers.flatMap(w => w.availableSlots));
+
+  function addError(index: number, message: string, hint: string) {
+    ruleErrors[index] = ruleErrors[index] || [];
+    ruleErrors[index].push(message);
+    ruleHints[index] = ruleHints[index] || [];
+    ruleHints[index].push(hint);
+    summary.push(`Rule ${index + 1} (${rules[index].type}): ${message}`);
+  }
+
+  function checkCoRun(index: number, rule: Extract<Rule, { type: 'coRun' }>, prefix = '') {
+    const ruleTasks = parseList(rule.tasks);
+    if (ruleTasks.length < 2) {
+      addError(index, `${prefix}Co-run needs at least 2 tasks`, 'List at least two task IDs in the co-run rule');
+      return;
+    }
+    const unknown = ruleTasks.filter(id => !tasksById.has(id));
+    if (unknown.length > 0) {
+      addError(
+        index,
+        `${prefix}Unknown task(s): ${unknown.join(', ')}`,
+        `Fix the task IDs or add ${unknown.join(', ')} to the tasks data`
+      );
+    }
+    const known = ruleTasks.filter(id => tasksById.has(id));
+    const phaseLists = known
+      .map(id => tasksById.get(id)!.preferredPhases)
+      .filter(list => list.length > 0);
+    if (phaseLists.length > 1 && intersectAll(phaseLists).length === 0) {
+      addError(
+        index,
+        `${prefix}Tasks ${known.join(', ')} share no preferred phase, so they can never run together`,
+        `Give ${known.join(', ')} at least one preferred phase in common`
+      );
+    }
+  }
+
+  function checkSlotRestriction(index: number, rule: Extract<Rule, { type: 'slotRestriction' }>, prefix = '') {
+    const minCommonSlots = parseNumber(rule.minCommonSlots, NaN);
+    if (!Number.isInteger(minCommonSlots) || minCommonSlots < 1) {
+      addError(
+        index,
+        `${prefix}Minimum common slots must be a positive integer`,
+        'Set the minimum common slots to a whole number of 1 or more'
+      );
+      return;
+    }
+    if (workerGroups.has(rule.group)) {
+      const members = normWorkers.filter(w => w.group === rule.group);
+      const common = intersectAll(members.map(w => w.availableSlots));
+      if (common.length < minCommonSlots) {
+        addError(
+          index,
+          `${prefix}Worker group ${rule.group} shares ${common.length} common slot(s), ${minCommonSlots} required`,
+          `Lower the minimum to ${common.length} or widen the AvailableSlots of group ${rule.group}`
+        );
+      }
+    } else if (clientGroups.has(rule.group)) {
+      const requested = normClients
+        .filter(c => c.groupTag === rule.group)
+        .flatMap(c => c.requestedTaskIds)
+        .filter(id => tasksById.has(id));
+      const phaseLists = requested
+        .map(id => tasksById.get(id)!.preferredPhases)
+        .filter(list => list.length > 0);
+      const common = intersectAll(phaseLists);
+      if (phaseLists.length > 0 && common.length < minCommonSlots) {
+        addError(
+          index,
+          `${prefix}Tasks requested by client group ${rule.group} share ${common.length} common phase(s), ${minCommonSlots} required`,
+          `Lower the minimum to ${common.length} or align the PreferredPhases of tasks requested by ${rule.group}`
+        );
+      }
+    } else {
+      addError(
+        index,
+        `${prefix}Unknown group: ${rule.group}`,
+        'Use a worker group or client group tag that exists in the data'
+      );
+    }
+  }
+
+  function checkLoadLimit(index: number, rule: Extract<Rule, { type: 'loadLimit' }>, prefix = '') {
+    const maxSlotsPerPhase = parseNumber(rule.maxSlotsPerPhase, NaN);
+    if (!Number.isInteger(maxSlotsPerPhase) || maxSlotsPerPhase < 1) {
+      addError(
+        index,
+        `${prefix}Maximum slots per phase must be a positive integer`,
+        'Set the maximum slots per phase to a whole number of 1 or more'
+      );
+      return;
+    }
+    const members = normWorkers.filter(w => w.group === rule.group);
+    if (members.length === 0) {
+      addError(
+        index,
+        `${prefix}No workers in group ${rule.group}`,
+        `Pick a worker group that has members, or put workers in ${rule.group}`
+      );
+      return;
+    }
+    const highest = Math.max(...members.map(w => w.maxLoadPerPhase ?? 1));
+    if (maxSlotsPerPhase > highest) {
+      addError(
+        index,
+        `${prefix}Limit ${maxSlotsPerPhase} is higher than every member's MaxLoadPerPhase (max ${highest}) and has no effect`,
+        `Set the limit to ${highest} or lower, or remove the rule`
+      );
+    }
+  }
+
+  function checkPhaseWindow(index: number, rule: Extract<Rule, { type: 'phaseWindow' }>, prefix = '') {
+    const allowed = parseNumberList(rule.allowedPhases, calendar.count);
+    if (allowed.length === 0) {
+      addError(index, `${prefix}No allowed phases selected`, 'Select at least one allowed phase');
+      return;
+    }
+    const outside = allowed.filter(p => !inCalendar(calendar, p));
+    if (outside.length > 0) {
+      addError(
+        index,
+        `${prefix}Phase(s) ${outside.join(', ')} are outside the ${calendar.count}-phase calendar`,
+        `Remove phase(s) ${outside.join(', ')} or extend the phase calendar`
+      );
+    }
+    const usable = allowed.filter(p => inCalendar(calendar, p) && !isBlackout(calendar, p));
+    if (outside.length < allowed.length && usable.length === 0) {
+      addError(
+        index,
+        `${prefix}Allowed phases (${allowed.join(', ')}) are all blackout phases`,
+        'Allow at least one phase that is not a blackout phase'
+      );
+    }
+    const task = tasksById.get(rule.task);
+    if (!task) {
+      addError(index, `${prefix}Unknown task: ${rule.task}`, 'Pick a task ID that exists in the tasks data');
+      return;
+    }
+    const preferred = task.preferredPhases;
+    if (preferred.length > 0 && !allowed.some(p => preferred.includes(p))) {
+      addError(
+        index,
+        `${prefix}Allowed phases (${allowed.join(', ')}) don't intersect ${rule.task}'s preferred phases (${preferred.join(', ')})`,
+        `Allow one of phases ${preferred.join(', ')} or change ${rule.task}'s PreferredPhases`
+      );
+    }
+    if (workerPhases.size > 0 && !allowed.some(p => workerPhases.has(p))) {
+      addError(
+        index,
+        `${prefix}No worker is available in phases ${allowed.join(', ')}`,
+        'Allow a phase some worker is available in, or add it to a worker\'s AvailableSlots'
+      );
+    }
+  }
+
+  function checkConcreteRule(index: number, rule: Rule, prefix = '') {
+    switch (rule.type) {
+      case 'coRun': return checkCoRun(index, rule, prefix);
+      case 'slotRestriction': return checkSlotRestriction(index, rule, prefix);
+      case 'loadLimit': return checkLoadLimit(index, rule, prefix);
+      case 'phaseWindow': return checkPhaseWindow(index, rule, prefix);
+    }
+  }
+
+  function checkPatternMatch(index: number, rule: Extract<Rule, { type: 'patternMatch' }>) {
+    if (!compilePattern(rule.regex)) {
+      addError(index, `Invalid regular expression: ${rule.regex}`, 'Fix the regular expression syntax');
+      return;
+    }
+    if (!['coRun', 'slotRestriction', 'loadLimit', 'phaseWindow'].includes(rule.template)) {
+      addError(
+        index,
+        `Unknown template '${rule.template}' (expected coRun, slotRestriction, loadLimit or phaseWindow)`,
+        'Choose coRun, slotRestriction, loadLimit or phaseWindow as the template'
+      );
+      return;
+    }
+    const expanded = expandPatternRule(rule, { clients, workers, tasks });
+    if (expanded.length === 0) {
+      addError(
+        index,
+        `Pattern /${rule.regex}/ matches nothing in the current data`,
+        'Change the pattern so it matches at least one ID in the data'
+      );
+      return;
+    }
+    expanded.forEach(concrete => checkConcreteRule(index, concrete, 'Expanded rule: '));
+  }
+
+  function checkPrecedenceOverride(index: number, rule: Extract<Rule, { type: 'precedenceOverride' }>) {
+    const globalRefs = rule.globalRules || [];
+    const specificRefs = rule.specificRules || [];
+    if (globalRefs.length === 0 && specificRefs.length === 0) {
+      addError(index, 'No rules referenced', 'Add rule numbers or rule types to the global or specific list');
+      return;
+    }
+    const referenceHint = `Use a rule number from 1 to ${rules.length} or a rule type name`;
+    const globalIdx = new Set<number>();
+    const specificIdx = new Set<number>();
+    globalRefs.forEach(ref => {
+      const resolved = resolveRuleReference(ref, rules);
+      if (resolved.length === 0) addError(index, `Reference '${ref}' does not match any rule`, referenceHint);
+      resolved.forEach(i => globalIdx.add(i));
+    });
+    specificRefs.forEach(ref => {
+      const resolved = resolveRuleReference(ref, rules);
+      if (resolved.length === 0) addError(index, `Reference '${ref}' does not match any rule`, referenceHint);
+      resolved.forEach(i => specificIdx.add(i));
+    });
+    if (globalIdx.has(index) || specificIdx.has(index)) {
+      addError(index, 'A precedence override cannot reference itself', 'Remove this rule from its own global and specific lists');
+    }
+    const both = [...globalIdx].filter(i => specificIdx.has(i));
+    if (both.length > 0) {
+      addError(
+        index,
+        `Rule(s) ${both.map(i => i + 1).join(', ')} are listed as both global and specific`,
+        'List each rule as either global or specific, not both'
+      );
+    }
+  }
+
+  rules.forEach((rule, index) => {
+    if (!rule || !RULE_TYPE_NAMES.includes(rule.type)) {
+      ruleErrors[index] = [`Unknown rule type: ${rule?.type}`];
+      ruleHints[index] = ['Delete the rule and recreate it in the rule builder'];
+      summary.push(`Rule ${index + 1}: Unknown rule type ${rule?.type}`);
+      return;
+    }
+    if (rule.type === 'patternMatch') checkPatternMatch(index, rule);
+    else if (rule.type === 'precedenceOverride') checkPrecedenceOverride(index, rule);
+    else checkConcreteRule(index, rule);
+  });
+
+  if (Object.keys(ruleErrors).length > 0) {
+    suggestions.push('Review the highlighted rules in the rule builder; they cannot be satisfied with the current data');
+  }
+
+  return { ruleErrors, ruleHints, summary, suggestions };
+}
@@ -0,0 +1,276 @@
+import type { Entity } from './validationUtils';
+import { defaultSchemas, getField, SchemaRegistry } from './entitySchema';
+import { parseList, parseNumberList } from './parseUtils';
+import { DEFAULT_PHASE_CALENDAR, PhaseCalendar } from './phaseCalendar';
+
+// Typed filter expressions for search. The NL endpoint only translates a query into a
+// SearchFilter; matching runs here, over every row.
+
+export type FilterOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'listContains' | 'in';
+
+export type FilterValue = string | number | (string | number)[];
+
+export interface FieldClause {
+  kind: 'field';
+  entity: Entity;
+  // Nested AttributesJSON keys use a dot: 'AttributesJSON.location'.
+  field: string;
+  op: FilterOperator;
+  value: FilterValue;
+}
+
+export type JoinRelation = 'requestedBy' | 'requests' | 'qualifiedFor' | 'staffableBy';
+
+export interface JoinClause {
+  kind: 'join';
+  entity: Entity;
+  relation: JoinRelation;
+  // Conditions on the related entity; a row matches when at least one related row satisfies all of them.
+  where: FieldClause[];
+}
+
+export type SearchClause = FieldClause | JoinClause;
+
+// Clauses on the same entity are ANDed. Entities without clauses match nothing.
+export interface SearchFilter {
+  clauses: SearchClause[];
+}
+
+export interface SearchData {
+  clients: readonly any[];
+  workers: readonly any[];
+  tasks: readonly any[];
+}
+
+export const FILTER_OPERATORS: FilterOperator[] = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains', 'listContains', 'in'];
+
+export const OPERATOR_LABELS: Record<FilterOperator, string> = {
+  eq: '=',
+  neq: '≠',
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  contains: 'contains',
+  listContains: 'has',
+  in: 'in',
+};
+
+export const JOIN_RELATIONS: Record<JoinRelation, { from: Entity; to: Entity; label: string }> = {
+  requestedBy: { from: 'tasks', to: 'clients', label: 'requested by clients where' },
+  requests: { from: 'clients', to: 'tasks', label: 'requesting tasks where' },
+  qualifiedFor: { from: 'workers', to: 'tasks', label: 'qualified for tasks where' },
+  staffableBy: { from: 'tasks', to: 'workers', label: 'staffable by workers where' },
+};
+
+const ENTITIES: Entity[] = ['clients', 'workers', 'tasks'];
+
+function readField(row: any, field: string): any {
+  const [base, ...path] = field.split('.');
+  let value = row[base];
+  if (path.length === 0) return value;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return undefined;
+    }
+  }
+  for (const key of path) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = value[key];
+  }
+  return value;
+}
+
+const norm = (v: any) => String(v ?? '').trim().toLowerCase();
+
+const isNumeric = (v: any) => v !== '' && v !== null && v !== undefined && !isNaN(Number(v));
+
+function compareEqual(cell: any, value: any): boolean {
+  if (isNumeric(cell) && isNumeric(value)) return Number(cell) === Number(value);
+  return norm(cell) === norm(value);
+}
+
+export function matchesClause(
+  row: any,
+  clause: FieldClause,
+  schemas: SchemaRegistry = defaultSchemas,
+  calendar: PhaseCalendar = DEFAULT_PHASE_CALENDAR
+): boolean {
+  const cell = readField(row, clause.field);
+  const values = Array.isArray(clause.value) ? clause.value : [clause.value];
+  switch (clause.op) {
+    case 'eq':
+      return compareEqual(cell, values[0]);
+    case 'neq':
+      return !compareEqual(cell, values[0]);
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      if (!isNumeric(cell) || !isNumeric(values[0])) return false;
+      const a = Number(cell);
+      const b = Number(values[0]);
+      return clause.op === 'gt' ? a > b : clause.op === 'gte' ? a >= b : clause.op === 'lt' ? a < b : a <= b;
+    }
+    case 'contains':
+      return norm(Array.isArray(cell) ? cell.join(',') : cell).includes(norm(values[0]));
+    case 'listContains': {
+      // Phase columns are matched by the phases they cover, so `has 3` finds "2-4" and ">=2".
+      if (getField(schemas[clause.entity], clause.field)?.phase) {
+        const phases = parseNumberList(cell, calendar.count);
+        return values.every(v => isNumeric(v) && phases.includes(Number(v)));
+      }
+      const items = parseList(cell).map(norm);
+      return values.every(v => items.includes(norm(v)));
+    }
+    case 'in':
+      return values.some(v => compareEqual(cell, v));
+    default:
+      return false;
+  }
+}
+
+function related(relation: JoinRelation, row: any, candidates: readonly any[]): any[] {
+  switch (relation) {
+    case 'requestedBy':
+      return candidates.filter(client => parseList(client.RequestedTaskIDs).includes(String(row.TaskID)));
+    case 'requests': {
+      const requested = new Set(parseList(row.RequestedTaskIDs));
+      return candidates.filter(task => requested.has(String(task.TaskID)));
+    }
+    case 'qualifiedFor': {
+      const skills = new Set(parseList(row.Skills));
+      return candidates.filter(task => {
+        const required = parseList(task.RequiredSkills);
+        return required.length > 0 && required.every(skill => skills.has(skill));
+      });
+    }
+    case 'staffableBy': {
+      const required = parseList(row.RequiredSkills);
+      if (required.length === 0) return [];
+      return candidates.filter(worker => {
+        const skills = new Set(parseList(worker.Skills));
+        return required.every(skill => skills.has(skill));
+      });
+    }
+    default:
+      return [];
+  }
+}
+
+export function evaluateSearchFilter(
+  filter: SearchFilter,
+  data: SearchData,
+  schemas: SchemaRegistry = defaultSchemas,
+  calendar: PhaseCalendar = DEFAULT_PHASE_CALENDAR
+): Record<Entity, any[]> {
+  const result = {} as Record<Entity, any[]>;
+  ENTITIES.forEach(entity => {
+    const clauses = filter.clauses.filter(c => c.entity === entity);
+    if (clauses.length === 0) {
+      result[entity] = [];
+      return;
+    }
+    // Rows of the joined entity that satisfy each join's conditions, computed once per join.
+    const joinMatches = clauses.map(clause => {
+      if (clause.kind !== 'join') return null;
+      const target = JOIN_RELATIONS[clause.relation].to;
+      return data[target].filter(row => clause.where.every(w => matchesClause(row, w, schemas, calendar)));
+    });
+    result[entity] = data[entity].filter(row =>
+      clauses.every((clause, i) =>
+        clause.kind === 'field'
+          ? matchesClause(row, clause, schemas, calendar)
+          : related(clause.relation, row, joinMatches[i]!).length > 0
+      )
+    );
+  });
+  return result;
+}
+
+function formatValue(value: FilterValue): string {
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
+
+export function describeFieldClause(clause: FieldClause): string {
+  return `${clause.field} ${OPERATOR_LABELS[clause.op]} ${formatValue(clause.value)}`;
+}
+
+export function describeClause(clause: SearchClause): string {
+  if (clause.kind === 'field') return `${clause.entity}: ${describeFieldClause(clause)}`;
+  return `${clause.entity} ${JOIN_RELATIONS[clause.relation].label} ${clause.where.map(describeFieldClause).join(' and ')}`;
+}
+
+function parseValue(raw: any, op: FilterOperator): FilterValue | null {
+  if (Array.isArray(raw)) {
+    const items = raw.filter(v => typeof v === 'string' || typeof v === 'number');
+    if (items.length === 0) return null;
+    return op === 'in' || op === 'listContains' ? items : items[0];
+  }
+  if (typeof raw === 'string' || typeof raw === 'number') return raw;
+  if (typeof raw === 'boolean') return String(raw);
+  return null;
+}
+
+function parseFieldClause(raw: any, entity: Entity, columns: Record<Entity, string[]>, errors: string[]): FieldClause | null {
+  const field = typeof raw?.field === 'string' ? raw.field.trim() : '';
+  if (!field) {
+    errors.push(`Condition on ${entity} has no field`);
+    return null;
+  }
+  if (columns[entity].length > 0 && !columns[entity].includes(field.split('.')[0])) {
+    errors.push(`Unknown ${entity} field '${field}'`);
+    return null;
+  }
+  if (!FILTER_OPERATORS.includes(raw.op)) {
+    errors.push(`Unknown operator '${raw.op}' on ${field}`);
+    return null;
+  }
+  const value = parseValue(raw.value, raw.op);
+  if (value === null) {
+    errors.push(`Condition on ${field} has no usable value`);
+    return null;
+  }
+  return { kind: 'field', entity, field, op: raw.op, value };
+}
+
+// Checks an untrusted filter (from the model or a pasted JSON) against the SearchFilter shape and
+// the known columns. Invalid clauses are dropped and reported.
+export function parseSearchFilter(raw: any, columns: Record<Entity, string[]>): { filter: SearchFilter; errors: string[] } {
+  const errors: string[] = [];
+  const clauses: SearchClause[] = [];
+  const rawClauses = Array.isArray(raw) ? raw : raw?.clauses;
+  if (!Array.isArray(rawClauses)) {
+    return { filter: { clauses }, errors: ["Filter has no 'clauses' array"] };
+  }
+
+  rawClauses.forEach(rawClause => {
+    const entity = rawClause?.entity;
+    if (!ENTITIES.includes(entity)) {
+      errors.push(`Unknown entity '${entity}'`);
+      return;
+    }
+    if (rawClause.kind === 'join' || rawClause.relation) {
+      const relation = JOIN_RELATIONS[rawClause.relation as JoinRelation];
+      if (!relation || relation.from !== entity) {
+        errors.push(`Unknown ${entity} relation '${rawClause.relation}'`);
+        return;
+      }
+      const where = (Array.isArray(rawClause.where) ? rawClause.where : [])
+        .map((w: any) => parseFieldClause(w, relation.to, columns, errors))
+        .filter(Boolean) as FieldClause[];
+      if (where.length === 0) {
+        errors.push(`Join '${rawClause.relation}' has no valid conditions`);
+        return;
+      }
+      clauses.push({ kind: 'join', entity, relation: rawClause.relation, where });
+      return;
+    }
+    const clause = parseFieldClause(rawClause, entity, columns, errors);
+    if (clause) clauses.push(clause);
+  });
+
+  return { filter: { clauses }, errors };
+}
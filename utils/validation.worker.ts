@@ -0,0 +1,65 @@
+import type { Rule } from '../components/RuleBuilder';
+import { ENTITIES, SchemaRegistry } from './entitySchema';
+import type { PhaseCalendar } from './phaseCalendar';
+import { ROW_KEY_FIELD } from './rowKeys';
+import type { ValidationRequest, ValidationResponse } from './validationClient';
+import { createIncrementalValidation, Entity, ValidationProgress, ValidationResult } from './validationUtils';
+
+// Worker side of validationClient.ts. Keeps its own copy of the data between requests and runs the
+// incremental engine over it one check at a time, so a newer request can cut a stale run short.
+
+interface WorkerScope {
+  postMessage: (message: ValidationResponse) => void;
+  onmessage: ((e: MessageEvent<ValidationRequest>) => void) | null;
+}
+
+const scope = self as unknown as WorkerScope;
+const engine = createIncrementalValidation();
+
+// Runs that finish sooner than this don't report progress.
+const PROGRESS_DELAY_MS = 100;
+
+const rows: Record<Entity, any[]> = { clients: [], workers: [], tasks: [] };
+let rules: Rule[] = [];
+let schemas: SchemaRegistry | undefined;
+let calendar: PhaseCalendar | undefined;
+let latestId = 0;
+
+const applyRequest = (request: ValidationRequest) => {
+  ENTITIES.forEach(entity => {
+    const update = request.rows[entity];
+    if (!update) return;
+    const byKey = new Map<string, any>();
+    rows[entity].forEach(row => {
+      const key = row?.[ROW_KEY_FIELD];
+      if (key !== undefined && key !== null && key !== '') byKey.set(String(key), row);
+    });
+    // Unchanged rows stay the same objects, so their cached issues are reused.
+    rows[entity] = update.map(item => (typeof item === 'string' ? byKey.get(item) ?? { [ROW_KEY_FIELD]: item } : item));
+  });
+  if (request.rules) rules = request.rules;
+  if ('schemas' in request) schemas = request.schemas;
+  if ('calendar' in request) calendar = request.calendar;
+};
+
+const nextTick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const run = async (request: ValidationRequest) => {
+  const started = Date.now();
+  const steps = engine.steps({ ...rows, rules, schemas, calendar, disabledValidators: request.disabledValidators });
+  let step = steps.next();
+  while (!step.done) {
+    if (Date.now() - started > PROGRESS_DELAY_MS) scope.postMessage({ type: 'progress', id: request.id, progress: step.value as ValidationProgress });
+    // Lets a newer request in; if one came, this run's result is already stale.
+    await nextTick();
+    if (request.id !== latestId) return;
+    step = steps.next();
+  }
+  scope.postMessage({ type: 'result', id: request.id, issues: (step.value as ValidationResult).issues });
+};
+
+scope.onmessage = e => {
+  latestId = e.data.id;
+  applyRequest(e.data);
+  run(e.data);
+};
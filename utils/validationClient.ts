@@ -0,0 +1,142 @@
+import type { Rule } from '../components/RuleBuilder';
+import { ENTITIES, SchemaRegistry } from './entitySchema';
+import type { PhaseCalendar } from './phaseCalendar';
+import { ROW_KEY_FIELD } from './rowKeys';
+import {
+  assembleResult,
+  createIncrementalValidation,
+  Entity,
+  listValidators,
+  ValidateAllDataArgs,
+  ValidationProgress,
+  ValidationResult,
+} from './validationUtils';
+import { BUILTIN_VALIDATORS, ValidationIssue } from './validators';
+
+// Runs validation in a Web Worker so large sheets don't freeze the grids. Only what changed since
+// the last run is posted: rows the worker already has go over as their key, so it keeps the same
+// row objects and its incremental caches stay warm.
+
+// A row the worker already has, by key, or a new or edited row.
+export type RowUpdate = (string | Record<string, any>)[];
+
+export interface ValidationRequest {
+  id: number;
+  // Only entities whose rows changed.
+  rows: Partial<Record<Entity, RowUpdate>>;
+  // Left out when unchanged.
+  rules?: Rule[];
+  schemas?: SchemaRegistry;
+  calendar?: PhaseCalendar;
+  disabledValidators: string[];
+}
+
+export type ValidationResponse =
+  | { type: 'progress'; id: number; progress: ValidationProgress }
+  | { type: 'result'; id: number; issues: ValidationIssue[] };
+
+export interface ValidationClient {
+  validate: (args: ValidateAllDataArgs) => void;
+  dispose: () => void;
+}
+
+export function createValidationClient(
+  onResult: (result: ValidationResult) => void,
+  onProgress: (progress: ValidationProgress) => void
+): ValidationClient {
+  // Checks registered by the app only exist on this thread, so they (and replaced built-ins) run here.
+  const local = createIncrementalValidation();
+  let worker: Worker | null = null;
+  let nextId = 0;
+  let pending: { id: number; localIssues: ValidationIssue[] } | null = null;
+  let lastArgs: ValidateAllDataArgs | null = null;
+  // What the worker has, so the next request can leave it out.
+  let sent: {
+    rows: Partial<Record<Entity, readonly any[]>>;
+    byKey: Partial<Record<Entity, Map<string, any>>>;
+    rules?: Rule[];
+    schemas?: SchemaRegistry;
+    calendar?: PhaseCalendar;
+  } = { rows: {}, byKey: {} };
+
+  const runLocally = (args: ValidateAllDataArgs) => {
+    pending = null;
+    onResult(local.run(args));
+  };
+
+  if (typeof Worker !== 'undefined') {
+    try {
+      worker = new Worker(new URL('./validation.worker.ts', import.meta.url));
+      worker.onmessage = (e: MessageEvent<ValidationResponse>) => {
+        const message = e.data;
+        if (!pending || message.id !== pending.id) return;
+        if (message.type === 'progress') {
+          onProgress(message.progress);
+        } else {
+          const { localIssues } = pending;
+          pending = null;
+          onResult(assembleResult([...message.issues, ...localIssues]));
+        }
+      };
+      worker.onerror = () => {
+        worker?.terminate();
+        worker = null;
+        if (lastArgs) runLocally(lastArgs);
+      };
+    } catch {
+      worker = null;
+    }
+  }
+
+  const rowUpdate = (entity: Entity, rows: readonly any[]): RowUpdate => {
+    const known = sent.byKey[entity] || new Map<string, any>();
+    const byKey = new Map<string, any>();
+    const update = rows.map(row => {
+      const key = row?.[ROW_KEY_FIELD];
+      const hasKey = key !== undefined && key !== null && key !== '';
+      if (hasKey) byKey.set(String(key), row);
+      return hasKey && known.get(String(key)) === row ? String(key) : row;
+    });
+    sent.rows[entity] = rows;
+    sent.byKey[entity] = byKey;
+    return update;
+  };
+
+  const validate = (args: ValidateAllDataArgs) => {
+    lastArgs = args;
+    if (!worker) {
+      runLocally(args);
+      return;
+    }
+
+    const builtins = new Set(BUILTIN_VALIDATORS);
+    const validators = args.validators ?? listValidators();
+    const custom = validators.filter(v => !builtins.has(v));
+    const skipped = BUILTIN_VALIDATORS.filter(v => !validators.includes(v)).map(v => v.id);
+    const localIssues = custom.length > 0 ? local.run({ ...args, validators: custom }).issues : [];
+
+    const request: ValidationRequest = {
+      id: ++nextId,
+      rows: {},
+      disabledValidators: [...(args.disabledValidators || []), ...skipped],
+    };
+    ENTITIES.forEach(entity => {
+      if (args[entity] !== sent.rows[entity]) request.rows[entity] = rowUpdate(entity, args[entity]);
+    });
+    if (args.rules !== sent.rules) request.rules = (sent.rules = args.rules) || [];
+    if (args.schemas !== sent.schemas) request.schemas = sent.schemas = args.schemas;
+    if (args.calendar !== sent.calendar) request.calendar = sent.calendar = args.calendar;
+
+    pending = { id: request.id, localIssues };
+    worker.postMessage(request);
+  };
+
+  const dispose = () => {
+    worker?.terminate();
+    worker = null;
+    pending = null;
+    sent = { rows: {}, byKey: {} };
+  };
+
+  return { validate, dispose };
+}
@@ -1,357 +1,208 @@
-type Entity = 'clients' | 'workers' | 'tasks';
+import type { Rule } from '../components/RuleBuilder';
+import { defaultSchemas, ENTITIES, SchemaRegistry } from './entitySchema';
+import { normalizeData } from './normalizeData';
+import { DEFAULT_PHASE_CALENDAR, PhaseCalendar } from './phaseCalendar';
+import { BUILTIN_VALIDATORS, IssueReport, ValidationContext, ValidationIssue, Validator } from './validators';
+
+export type Entity = 'clients' | 'workers' | 'tasks';
 
 export interface ValidationResult {
   errors: {
     [entity in Entity]: {
-      [rowId: string]: { [field: string]: string };
+      // Keyed by internal row key (see rowKeys.ts), not business ID or position.
+      [rowKey: string]: { [field: string]: string };
     };
   };
+  ruleErrors: { [ruleIndex: number]: string[] };
   summary: string[];
   suggestions: string[];
+  // Everything above is derived from these.
+  issues: ValidationIssue[];
 }
 
-interface ValidateAllDataArgs {
-  clients: any[];
-  workers: any[];
-  tasks: any[];
-  rules?: any[];
+export interface ValidationProgress {
+  done: number;
+  total: number;
+  // The check about to run.
+  label: string;
 }
 
-const requiredColumns: Record<Entity, string[]> = {
-  clients: ['ClientID', 'ClientName', 'PriorityLevel', 'RequestedTaskIDs', 'GroupTag', 'AttributesJSON'],
-  workers: ['WorkerID', 'WorkerName', 'Skills', 'AvailableSlots', 'MaxLoadPerPhase', 'WorkerGroup', 'QualificationLevel'],
-  tasks: ['TaskID', 'TaskName', 'Category', 'Duration', 'RequiredSkills', 'PreferredPhases', 'MaxConcurrent'],
-};
-
-export function validateAllData({ clients, workers, tasks, rules = [] }: ValidateAllDataArgs): ValidationResult {
-  const errors: ValidationResult['errors'] = {
-    clients: {},
-    workers: {},
-    tasks: {},
-  };
-  const summary: string[] = [];
-  const suggestions: string[] = [];
+// --- Validator registry ---
+// Built-in checks are registered here; a team's own checks for custom columns go through
+// registerValidator, e.g. from a module imported by _app.tsx.
 
-  function checkMissingColumns(entity: Entity, rows: any[]) {
-    if (rows.length === 0) return;
-    const required = requiredColumns[entity];
-    const actual = Object.keys(rows[0]);
-    const missing = required.filter(col => !actual.includes(col));
-    if (missing.length > 0) {
-      summary.push(`${entity}: Missing required columns: ${missing.join(', ')}`);
-      rows.forEach((row, idx) => {
-        errors[entity][row.id || idx] = errors[entity][row.id || idx] || {};
-        missing.forEach(col => {
-          errors[entity][row.id || idx][col] = 'Required column missing';
-        });
-      });
-    }
-  }
+const registry: Validator[] = [...BUILTIN_VALIDATORS];
 
-  function checkDuplicateIds(entity: Entity, rows: any[], idField: string) {
-    const ids = new Map<string, number[]>();
-    rows.forEach((row, idx) => {
-      const id = row[idField];
-      if (id) {
-        if (!ids.has(id)) ids.set(id, []);
-        ids.get(id)!.push(idx);
-      }
-    });
-    ids.forEach((indices, id) => {
-      if (indices.length > 1) {
-        summary.push(`${entity}: Duplicate ${idField} '${id}' found in rows ${indices.map(i => i + 1).join(', ')}`);
-        indices.forEach(idx => {
-          errors[entity][rows[idx].id || idx] = errors[entity][rows[idx].id || idx] || {};
-          errors[entity][rows[idx].id || idx][idField] = `Duplicate ${idField}: ${id}`;
-        });
-      }
-    });
-  }
+export function registerValidator(validator: Validator) {
+  const existing = registry.findIndex(v => v.id === validator.id);
+  if (existing >= 0) registry[existing] = validator;
+  else registry.push(validator);
+}
 
-  function checkMalformedLists(entity: Entity, rows: any[], field: string, numeric = false) {
-    rows.forEach((row, idx) => {
-      const value = row[field];
-      if (!value) return;
-      
-      let list: string[] = [];
-      try {
-        if (typeof value === 'string' && value.trim().startsWith('[')) {
-          list = JSON.parse(value);
-        } else {
-          list = value.split(',').map((s: string) => s.trim());
-        }
-      } catch {
-        errors[entity][row.id || idx] = errors[entity][row.id || idx] || {};
-        errors[entity][row.id || idx][field] = `Invalid list format`;
-        summary.push(`${entity}: Row ${idx + 1} has malformed list in ${field}`);
-        return;
-      }
-      
-      if (numeric) {
-        const invalidItems = list.filter((item: string) => !/^\d+$/.test(item));
-        if (invalidItems.length > 0) {
-          errors[entity][row.id || idx] = errors[entity][row.id || idx] || {};
-          errors[entity][row.id || idx][field] = `Non-numeric values: ${invalidItems.join(', ')}`;
-          summary.push(`${entity}: Row ${idx + 1} has non-numeric values in ${field}: ${invalidItems.join(', ')}`);
-        }
-      }
-    });
-  }
+export function unregisterValidator(id: string) {
+  const existing = registry.findIndex(v => v.id === id);
+  if (existing >= 0) registry.splice(existing, 1);
+}
 
-  function checkOutOfRange(entity: Entity, rows: any[], field: string, min: number, max: number) {
-    rows.forEach((row, idx) => {
-      const value = row[field];
-      if (value === undefined || value === null || value === '') return;
-      const numValue = Number(value);
-      if (isNaN(numValue) || numValue < min || numValue > max) {
-        errors[entity][row.id || idx] = errors[entity][row.id || idx] || {};
-        errors[entity][row.id || idx][field] = `Value must be between ${min} and ${max}`;
-        summary.push(`${entity}: Row ${idx + 1} ${field} value ${value} is out of range [${min}, ${max}]`);
-      }
-    });
-  }
+export function listValidators(): Validator[] {
+  return [...registry];
+}
 
-  function checkJSONFormat(entity: Entity, rows: any[], field: string) {
-    rows.forEach((row, idx) => {
-      const value = row[field];
-      if (!value) return;
-      
-      try {
-        JSON.parse(value);
-      } catch {
-        errors[entity][row.id || idx] = errors[entity][row.id || idx] || {};
-        errors[entity][row.id || idx][field] = 'Invalid JSON format';
-        summary.push(`${entity}: Row ${idx + 1} has invalid JSON in ${field}`);
-      }
-    });
-  }
+export interface ValidateAllDataArgs {
+  clients: readonly any[];
+  workers: readonly any[];
+  tasks: readonly any[];
+  rules?: Rule[];
+  schemas?: SchemaRegistry;
+  calendar?: PhaseCalendar;
+  // Ids of validators the user switched off.
+  disabledValidators?: string[];
+  validators?: Validator[];
+}
 
-  function checkCircularCoRuns(rules: any[]) {
-    const coRunRules = rules.filter(r => r.type === 'coRun');
-    const graph: Record<string, string[]> = {};
-    
-    coRunRules.forEach(rule => {
-      rule.tasks.forEach((task: string) => {
-        if (!graph[task]) graph[task] = [];
-        rule.tasks.forEach((otherTask: string) => {
-          if (task !== otherTask && !graph[task].includes(otherTask)) {
-            graph[task].push(otherTask);
-          }
-        });
-      });
+export function assembleResult(issues: ValidationIssue[]): ValidationResult {
+  const result: ValidationResult = {
+    errors: { clients: {}, workers: {}, tasks: {} },
+    ruleErrors: {},
+    summary: [],
+    suggestions: [],
+    issues,
+  };
+  issues.forEach(issue => {
+    result.summary.push(issue.message);
+    issue.cells.forEach(cell => {
+      const rowErrors = result.errors[cell.entity][cell.rowKey] = result.errors[cell.entity][cell.rowKey] || {};
+      rowErrors[cell.field] = rowErrors[cell.field] ? `${rowErrors[cell.field]}; ${cell.message}` : cell.message;
     });
-
-    const visited = new Set<string>();
-    const recStack = new Set<string>();
-
-    function hasCycle(task: string): boolean {
-      if (recStack.has(task)) return true;
-      if (visited.has(task)) return false;
-      
-      visited.add(task);
-      recStack.add(task);
-      
-      for (const neighbor of graph[task] || []) {
-        if (hasCycle(neighbor)) return true;
-      }
-      
-      recStack.delete(task);
-      return false;
+    if (issue.rule) {
+      result.ruleErrors[issue.rule.index] = result.ruleErrors[issue.rule.index] || [];
+      result.ruleErrors[issue.rule.index].push(issue.rule.message);
     }
-
-    for (const task of Object.keys(graph)) {
-      if (!visited.has(task) && hasCycle(task)) {
-        summary.push(`Circular co-run dependency detected involving task ${task}`);
-        suggestions.push('Review co-run rules to eliminate circular dependencies');
-        break;
-      }
+    if (issue.suggestion && !result.suggestions.includes(issue.suggestion)) {
+      result.suggestions.push(issue.suggestion);
     }
-  }
+  });
+  return result;
+}
 
-  function checkPhaseSlotSaturation() {
-    const phaseSlots: Record<number, { total: number; used: number }> = {};
-    
-    // Calculate total available slots per phase
-    workers.forEach(worker => {
-      let slots: number[] = [];
-      try {
-        slots = typeof worker.AvailableSlots === 'string' && worker.AvailableSlots.trim().startsWith('[')
-          ? JSON.parse(worker.AvailableSlots)
-          : worker.AvailableSlots.split(',').map((s: string) => parseInt(s.trim()));
-      } catch {
-        return;
-      }
-      
-      slots.forEach(phase => {
-        if (!phaseSlots[phase]) phaseSlots[phase] = { total: 0, used: 0 };
-        phaseSlots[phase].total += worker.MaxLoadPerPhase || 1;
-      });
-    });
+// --- Incremental validation ---
+// Keeps the issues of earlier runs: per row object for row checks (rows are replaced, not
+// mutated, on edit) and per validator for whole-data checks, keyed by the inputs they read.
+// A run only recomputes what an edit could have changed.
 
-    // Calculate used slots per phase
-    tasks.forEach(task => {
-      let phases: number[] = [];
-      try {
-        phases = typeof task.PreferredPhases === 'string' && task.PreferredPhases.trim().startsWith('[')
-          ? JSON.parse(task.PreferredPhases)
-          : task.PreferredPhases.split(',').map((s: string) => parseInt(s.trim()));
-      } catch {
-        return;
-      }
-      
-      phases.forEach(phase => {
-        if (phaseSlots[phase]) {
-          phaseSlots[phase].used += task.Duration || 1;
-        }
-      });
-    });
+export interface IncrementalValidation {
+  // One step per validator, yielding progress before each; the generator returns the result.
+  steps: (args: ValidateAllDataArgs) => Generator<ValidationProgress, ValidationResult>;
+  run: (args: ValidateAllDataArgs) => ValidationResult;
+}
 
-    Object.entries(phaseSlots).forEach(([phase, slots]) => {
-      if (slots.used > slots.total) {
-        summary.push(`Phase ${phase} is oversaturated: ${slots.used} slots needed, ${slots.total} available`);
-        suggestions.push(`Consider reducing task durations or adding more workers for phase ${phase}`);
-      }
-    });
-  }
+interface RowEntry {
+  validator: Validator;
+  idx: number;
+  issues: ValidationIssue[];
+}
 
-  function checkOverloadedWorkers() {
-    workers.forEach((worker, idx) => {
-      let availableSlots: number[] = [];
-      try {
-        availableSlots = typeof worker.AvailableSlots === 'string' && worker.AvailableSlots.trim().startsWith('[')
-          ? JSON.parse(worker.AvailableSlots)
-          : worker.AvailableSlots.split(',').map((s: string) => parseInt(s.trim()));
-      } catch {
-        return;
-      }
-      
-      if (availableSlots.length < (worker.MaxLoadPerPhase || 1)) {
-        errors.workers[worker.id || idx] = errors.workers[worker.id || idx] || {};
-        errors.workers[worker.id || idx]['MaxLoadPerPhase'] = `Max load (${worker.MaxLoadPerPhase}) exceeds available slots (${availableSlots.length})`;
-        summary.push(`workers: Row ${idx + 1} worker is overloaded`);
-      }
-    });
-  }
+interface WholeEntry {
+  validator: Validator;
+  inputs: unknown[];
+  issues: ValidationIssue[];
+}
 
-  function checkMaxConcurrencyFeasibility() {
-    tasks.forEach((task, idx) => {
-      const requiredSkills = task.RequiredSkills;
-      if (!requiredSkills) return;
-      
-      let skills: string[] = [];
-      try {
-        skills = typeof requiredSkills === 'string' && requiredSkills.trim().startsWith('[')
-          ? JSON.parse(requiredSkills)
-          : requiredSkills.split(',').map((s: string) => s.trim());
-      } catch {
-        return;
-      }
-      
-      const qualifiedWorkers = workers.filter(worker => {
-        let workerSkills: string[] = [];
-        try {
-          workerSkills = typeof worker.Skills === 'string' && worker.Skills.trim().startsWith('[')
-            ? JSON.parse(worker.Skills)
-            : worker.Skills.split(',').map((s: string) => s.trim());
-        } catch {
-          return false;
+export function createIncrementalValidation(): IncrementalValidation {
+  let schemas: SchemaRegistry | null = null;
+  let calendar: PhaseCalendar | null = null;
+  let rowCache = new WeakMap<object, Map<string, RowEntry>>();
+  let wholeCache = new Map<string, WholeEntry>();
+
+  const runValidator = (validator: Validator, context: ValidationContext): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    const collect = (into: ValidationIssue[]) => (issue: IssueReport) =>
+      into.push({ ...issue, validator: validator.id, severity: issue.severity ?? validator.severity, cells: issue.cells ?? [] });
+
+    // A broken custom validator shouldn't take the built-in checks down with it.
+    try {
+      if (validator.validateRow) {
+        ENTITIES.forEach(entity => context.data[entity].forEach(record => {
+          const row = record.row;
+          const cacheable = row !== null && typeof row === 'object';
+          const cached = cacheable ? rowCache.get(row)?.get(validator.id) : undefined;
+          if (cached && cached.validator === validator && cached.idx === record.idx) {
+            issues.push(...cached.issues);
+            return;
+          }
+          const found: ValidationIssue[] = [];
+          validator.validateRow!(entity, record, context, collect(found));
+          if (cacheable) {
+            if (!rowCache.has(row)) rowCache.set(row, new Map());
+            rowCache.get(row)!.set(validator.id, { validator, idx: record.idx, issues: found });
+          }
+          issues.push(...found);
+        }));
+      }
+      if (validator.validate) {
+        const inputs = validator.inputs?.map(input => context[input]);
+        const cached = wholeCache.get(validator.id);
+        if (inputs && cached && cached.validator === validator && inputs.every((input, i) => input === cached.inputs[i])) {
+          issues.push(...cached.issues);
+        } else {
+          const found: ValidationIssue[] = [];
+          validator.validate(context, collect(found));
+          if (inputs) wholeCache.set(validator.id, { validator, inputs, issues: found });
+          issues.push(...found);
         }
-        return skills.some(skill => workerSkills.includes(skill));
-      });
-      
-      if (qualifiedWorkers.length < (task.MaxConcurrent || 1)) {
-        errors.tasks[task.id || idx] = errors.tasks[task.id || idx] || {};
-        errors.tasks[task.id || idx]['MaxConcurrent'] = `Max concurrent (${task.MaxConcurrent}) exceeds qualified workers (${qualifiedWorkers.length})`;
-        summary.push(`tasks: Row ${idx + 1} max concurrency not feasible`);
-      }
-    });
-  }
-
-  // --- Core validations ---
-  checkMissingColumns('clients', clients);
-  checkDuplicateIds('clients', clients, 'ClientID');
-  checkOutOfRange('clients', clients, 'PriorityLevel', 1, 5);
-  checkMalformedLists('clients', clients, 'RequestedTaskIDs');
-  checkJSONFormat('clients', clients, 'AttributesJSON');
-
-  checkMissingColumns('workers', workers);
-  checkDuplicateIds('workers', workers, 'WorkerID');
-  checkMalformedLists('workers', workers, 'Skills');
-  checkMalformedLists('workers', workers, 'AvailableSlots', true);
-  checkOutOfRange('workers', workers, 'MaxLoadPerPhase', 1, 10);
-  checkOverloadedWorkers();
-
-  checkMissingColumns('tasks', tasks);
-  checkDuplicateIds('tasks', tasks, 'TaskID');
-  checkMalformedLists('tasks', tasks, 'RequiredSkills');
-  checkMalformedLists('tasks', tasks, 'PreferredPhases', true);
-  checkOutOfRange('tasks', tasks, 'Duration', 1, 100);
-  checkOutOfRange('tasks', tasks, 'MaxConcurrent', 1, 10);
-  checkMaxConcurrencyFeasibility();
-
-  // --- Cross-entity validations ---
-  // 1. RequestedTaskIDs in clients must exist in tasks
-  const taskIds = new Set(tasks.map((t) => t.TaskID));
-  clients.forEach((client, idx) => {
-    const requestedTasks = client.RequestedTaskIDs;
-    if (requestedTasks) {
-      let taskList: string[] = [];
-      try {
-        taskList = typeof requestedTasks === 'string' && requestedTasks.trim().startsWith('[')
-          ? JSON.parse(requestedTasks)
-          : requestedTasks.split(',');
-      } catch {
-        // Already handled by malformed list check
       }
-      taskList.forEach((taskId: string) => {
-        if (taskId && !taskIds.has(taskId.trim())) {
-          errors.clients[client.id || idx] = errors.clients[client.id || idx] || {};
-          errors.clients[client.id || idx]['RequestedTaskIDs'] = `Unknown task ID: ${taskId}`;
-          summary.push(`clients: Row ${idx + 1} requests unknown task '${taskId}'`);
-        }
-      });
+    } catch (e) {
+      collect(issues)({ code: 'validator-failed', severity: 'warning', message: `Check '${validator.label}' failed: ${(e as Error).message}` });
     }
-  });
+    return issues;
+  };
 
-  // 2. Skill coverage: every RequiredSkill in tasks must be present in at least one worker's Skills
-  const allWorkerSkills = new Set(
-    workers.flatMap((w) => {
-      const s = w.Skills;
-      if (!s) return [];
-      try {
-        return typeof s === 'string' && s.trim().startsWith('[')
-          ? JSON.parse(s)
-          : s.split(',');
-      } catch {
-        return [];
-      }
-    }).map((skill: string) => skill.trim())
-  );
-  tasks.forEach((task, idx) => {
-    const reqSkills = task.RequiredSkills;
-    if (reqSkills) {
-      let skills: string[] = [];
-      try {
-        skills = typeof reqSkills === 'string' && reqSkills.trim().startsWith('[')
-          ? JSON.parse(reqSkills)
-          : reqSkills.split(',');
-      } catch {
-        // Already handled by malformed list check
-      }
-      skills.forEach((skill: string) => {
-        if (skill && !allWorkerSkills.has(skill.trim())) {
-          errors.tasks[task.id || idx] = errors.tasks[task.id || idx] || {};
-          errors.tasks[task.id || idx]['RequiredSkills'] =
-            (errors.tasks[task.id || idx]['RequiredSkills'] || '') + ` No worker with skill: ${skill}`;
-          summary.push(`tasks: Row ${idx + 1} requires skill '${skill}' not found in any worker`);
-        }
-      });
+  function* steps({
+    clients,
+    workers,
+    tasks,
+    rules = [],
+    schemas: nextSchemas = defaultSchemas,
+    calendar: nextCalendar = DEFAULT_PHASE_CALENDAR,
+    disabledValidators = [],
+    validators = registry,
+  }: ValidateAllDataArgs): Generator<ValidationProgress, ValidationResult> {
+    // Every check reads the normalized rows, which depend on both.
+    if (nextSchemas !== schemas || nextCalendar !== calendar) {
+      schemas = nextSchemas;
+      calendar = nextCalendar;
+      rowCache = new WeakMap();
+      wholeCache = new Map();
     }
-  });
+    const context: ValidationContext = {
+      clients: clients as any[],
+      workers: workers as any[],
+      tasks: tasks as any[],
+      rules,
+      schemas,
+      calendar,
+      data: normalizeData({ clients, workers, tasks }, schemas, calendar),
+    };
+    const enabled = validators.filter(v => !disabledValidators.includes(v.id));
+    const issues: ValidationIssue[] = [];
+    for (let i = 0; i < enabled.length; i++) {
+      yield { done: i, total: enabled.length, label: enabled[i].label };
+      issues.push(...runValidator(enabled[i], context));
+    }
+    return assembleResult(issues);
+  }
 
-  // --- Advanced validations ---
-  checkCircularCoRuns(rules);
-  checkPhaseSlotSaturation();
+  const run = (args: ValidateAllDataArgs) => {
+    const iterator = steps(args);
+    let step = iterator.next();
+    while (!step.done) step = iterator.next();
+    return step.value;
+  };
+
+  return { steps, run };
+}
 
-  return { errors, summary, suggestions };
-} 
\ No newline at end of file
+// One-off validation with nothing remembered between calls.
+export function validateAllData(args: ValidateAllDataArgs): ValidationResult {
+  return createIncrementalValidation().run(args);
+}
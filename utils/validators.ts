@@ -0,0 +1,478 @@
+import type { Rule } from '../components/RuleBuilder';
+import type { Entity } from './validationUtils';
+import { validateRules } from './ruleValidation';
+import { ENTITIES, SchemaRegistry } from './entitySchema';
+import { rowNumber, sourceOf } from './rowSource';
+import { rowKeyOf } from './rowKeys';
+import { isBlank } from './parseUtils';
+import { NormalizedData, NormalizedRow, NormalizedWorker, workersBySkill } from './normalizeData';
+import { inCalendar, isBlackout, PhaseCalendar } from './phaseCalendar';
+
+// The built-in checks, one validator per concern. Each has a stable id (used to toggle it), a
+// default severity and reports issues with a machine-readable code and the cells they affect.
+// Teams add their own through registerValidator in validationUtils.ts.
+
+export type Severity = 'error' | 'warning' | 'info';
+
+export const SEVERITIES: Severity[] = ['error', 'warning', 'info'];
+
+export interface CellRef {
+  entity: Entity;
+  rowKey: string;
+  field: string;
+  // Shown on the grid cell; the issue message goes to the summary.
+  message: string;
+}
+
+export interface ValidationIssue {
+  validator: string;
+  code: string;
+  severity: Severity;
+  message: string;
+  cells: CellRef[];
+  // Issues about a rule are shown next to it in the rule builder.
+  rule?: { index: number; message: string };
+  suggestion?: string;
+}
+
+export type IssueReport = Omit<ValidationIssue, 'validator' | 'severity' | 'cells'> & {
+  severity?: Severity;
+  cells?: CellRef[];
+};
+
+export interface ValidationContext {
+  clients: any[];
+  workers: any[];
+  tasks: any[];
+  rules: Rule[];
+  schemas: SchemaRegistry;
+  calendar: PhaseCalendar;
+  // The same rows read into typed records (see normalizeData.ts).
+  data: NormalizedData;
+}
+
+// What a whole-data check reads. Its issues are reused until one of these changes.
+export type ValidationInput = Entity | 'rules';
+
+export type ReportIssue = (issue: IssueReport) => void;
+
+// A validator gives validateRow, validate or both. Row checks only re-run for rows that changed;
+// whole-data checks re-run when one of their inputs changed, or every time if they list none.
+// Schema or phase calendar changes re-run everything.
+export interface Validator {
+  id: string;
+  label: string;
+  description: string;
+  severity: Severity;
+  validateRow?: (entity: Entity, record: NormalizedRow, context: ValidationContext, report: ReportIssue) => void;
+  validate?: (context: ValidationContext, report: ReportIssue) => void;
+  inputs?: ValidationInput[];
+}
+
+export function cellRef(entity: Entity, row: any, idx: number, field: string, message: string): CellRef {
+  return { entity, rowKey: rowKeyOf(row, idx), field, message };
+}
+
+// --- Per-row checks ---
+
+const parseIssues: Validator = {
+  id: 'parse-issues',
+  label: 'File parse problems',
+  description: 'Ragged rows, broken quoting and coerced cells recorded while reading uploaded files',
+  severity: 'warning',
+  validateRow: (entity, { row, idx }, ctx, report) => {
+    sourceOf(row)?.issues?.forEach(issue => {
+      report({ code: 'parse-error', message: `${entity}: Row ${rowNumber(row, idx)}: ${issue}` });
+    });
+  },
+};
+
+const listFormat: Validator = {
+  id: 'list-format',
+  label: 'List cells',
+  description: 'List columns parse, and numeric lists hold only numbers or ranges like 1-3',
+  severity: 'error',
+  validateRow: (entity, { row, idx, diagnostics }, ctx, report) => {
+    diagnostics.forEach(diagnostic => {
+      if (diagnostic.code === 'malformed-list') {
+        report({
+          code: 'malformed-list',
+          message: `${entity}: Row ${rowNumber(row, idx)} has malformed list in ${diagnostic.field}`,
+          cells: [cellRef(entity, row, idx, diagnostic.field, diagnostic.message)],
+        });
+      } else if (diagnostic.code === 'non-numeric-list') {
+        report({
+          code: 'non-numeric-list',
+          message: `${entity}: Row ${rowNumber(row, idx)} has non-numeric values in ${diagnostic.field}: ${diagnostic.invalid!.join(', ')}`,
+          cells: [cellRef(entity, row, idx, diagnostic.field, diagnostic.message)],
+        });
+      }
+    });
+  },
+};
+
+const phaseCalendar: Validator = {
+  id: 'phase-calendar',
+  label: 'Phase calendar',
+  description: 'Phase columns only use phases of the phase calendar, and not only blackout phases',
+  severity: 'error',
+  validateRow: (entity, { row, idx, values }, { schemas, calendar }, report) => {
+    schemas[entity].fields.filter(f => f.phase).forEach(field => {
+      const phases: number[] = values[field.name];
+      const outside = phases.filter(phase => !inCalendar(calendar, phase));
+      if (outside.length > 0) {
+        report({
+          code: 'phase-out-of-calendar',
+          message: `${entity}: Row ${rowNumber(row, idx)} ${field.name} has phase(s) ${outside.join(', ')} outside the ${calendar.count}-phase calendar`,
+          cells: [cellRef(entity, row, idx, field.name, `Phases outside the calendar: ${outside.join(', ')}`)],
+        });
+      }
+      const inside = phases.filter(phase => inCalendar(calendar, phase));
+      if (inside.length > 0 && inside.every(phase => isBlackout(calendar, phase))) {
+        report({
+          code: 'blackout-phase',
+          severity: 'warning',
+          message: `${entity}: Row ${rowNumber(row, idx)} ${field.name} only lists blackout phases: ${inside.join(', ')}`,
+          cells: [cellRef(entity, row, idx, field.name, `Only blackout phases: ${inside.join(', ')}`)],
+        });
+      }
+    });
+  },
+};
+
+const numbers: Validator = {
+  id: 'numbers',
+  label: 'Numbers and ranges',
+  description: 'Number columns hold numbers within their schema range',
+  severity: 'error',
+  validateRow: (entity, { row, idx, values }, { schemas }, report) => {
+    schemas[entity].fields.forEach(field => {
+      if (field.kind !== 'number') return;
+      const value = row[field.name];
+      if (isBlank(value)) return;
+      const ranged = field.min !== undefined || field.max !== undefined;
+      const min = field.min ?? -Infinity;
+      const max = field.max ?? Infinity;
+      const numValue: number | null = values[field.name];
+      if (ranged && (numValue === null || numValue < min || numValue > max)) {
+        report({
+          code: 'out-of-range',
+          message: `${entity}: Row ${rowNumber(row, idx)} ${field.name} value ${value} is out of range [${min}, ${max}]`,
+          cells: [cellRef(entity, row, idx, field.name, `Value must be between ${min} and ${max}`)],
+        });
+      } else if (!ranged && numValue === null) {
+        report({
+          code: 'not-a-number',
+          message: `${entity}: Row ${rowNumber(row, idx)} ${field.name} value ${value} is not a number`,
+          cells: [cellRef(entity, row, idx, field.name, 'Value must be a number')],
+        });
+      }
+    });
+  },
+};
+
+const jsonFormat: Validator = {
+  id: 'json-format',
+  label: 'JSON cells',
+  description: 'JSON columns such as AttributesJSON parse',
+  severity: 'error',
+  validateRow: (entity, { row, idx, diagnostics }, ctx, report) => {
+    diagnostics.filter(d => d.code === 'invalid-json').forEach(diagnostic => {
+      report({
+        code: 'invalid-json',
+        message: `${entity}: Row ${rowNumber(row, idx)} has invalid JSON in ${diagnostic.field}`,
+        cells: [cellRef(entity, row, idx, diagnostic.field, diagnostic.message)],
+      });
+    });
+  },
+};
+
+const workerOverload: Validator = {
+  id: 'worker-overload',
+  label: 'Worker load',
+  description: 'MaxLoadPerPhase does not exceed the number of available slots',
+  severity: 'warning',
+  validateRow: (entity, record, ctx, report) => {
+    if (entity !== 'workers') return;
+    const { row, idx, availableSlots, maxLoadPerPhase, diagnostics } = record as NormalizedWorker;
+    if (isBlank(row.AvailableSlots) || diagnostics.some(d => d.field === 'AvailableSlots' && d.code === 'malformed-list')) return;
+    const maxLoad = maxLoadPerPhase ?? 1;
+    if (availableSlots.length < maxLoad) {
+      report({
+        code: 'overloaded-worker',
+        message: `workers: Row ${rowNumber(row, idx)} worker is overloaded`,
+        cells: [cellRef('workers', row, idx, 'MaxLoadPerPhase', `Max load (${maxLoad}) exceeds available slots (${availableSlots.length})`)],
+      });
+    }
+  },
+};
+
+// --- Per-entity checks ---
+
+const missingColumns: Validator = {
+  id: 'missing-columns',
+  label: 'Required columns',
+  description: 'Every required schema column is present',
+  severity: 'error',
+  inputs: ['clients', 'workers', 'tasks'],
+  validate: (ctx, report) => {
+    ENTITIES.forEach(entity => {
+      const rows = ctx[entity];
+      if (rows.length === 0) return;
+      const required = ctx.schemas[entity].fields.filter(f => f.required).map(f => f.name);
+      const actual = Object.keys(rows[0]);
+      const missing = required.filter(col => !actual.includes(col));
+      if (missing.length === 0) return;
+      report({
+        code: 'missing-column',
+        message: `${entity}: Missing required columns: ${missing.join(', ')}`,
+        cells: rows.flatMap((row, idx) => missing.map(col => cellRef(entity, row, idx, col, 'Required column missing'))),
+      });
+    });
+  },
+};
+
+const duplicateIds: Validator = {
+  id: 'duplicate-ids',
+  label: 'Unique IDs',
+  description: 'No two rows share a ClientID, WorkerID or TaskID',
+  severity: 'error',
+  inputs: ['clients', 'workers', 'tasks'],
+  validate: (ctx, report) => {
+    ENTITIES.forEach(entity => {
+      const rows = ctx[entity];
+      const idField = ctx.schemas[entity].idField;
+      const ids = new Map<string, number[]>();
+      rows.forEach((row, idx) => {
+        const id = row[idField];
+        if (id) {
+          if (!ids.has(id)) ids.set(id, []);
+          ids.get(id)!.push(idx);
+        }
+      });
+      ids.forEach((indices, id) => {
+        if (indices.length < 2) return;
+        report({
+          code: 'duplicate-id',
+          message: `${entity}: Duplicate ${idField} '${id}' found in rows ${indices.map(i => rowNumber(rows[i], i)).join(', ')}`,
+          cells: indices.map(idx => cellRef(entity, rows[idx], idx, idField, `Duplicate ${idField}: ${id}`)),
+        });
+      });
+    });
+  },
+};
+
+// --- Cross-entity checks ---
+
+const references: Validator = {
+  id: 'references',
+  label: 'References',
+  description: 'Reference columns (e.g. RequestedTaskIDs) point at existing rows',
+  severity: 'error',
+  inputs: ['clients', 'workers', 'tasks'],
+  validate: (ctx, report) => {
+    ENTITIES.forEach(entity => ctx.schemas[entity].fields.filter(f => f.references).forEach(field => {
+      const ids = new Set(ctx.data[field.references!].map(r => r.id));
+      const label = ctx.schemas[field.references!].label.toLowerCase();
+      ctx.data[entity].forEach(({ row, idx, values }) => {
+        const value = values[field.name];
+        // Malformed lists read as empty and are reported by the list format check.
+        const list: string[] = Array.isArray(value) ? value.map(String) : isBlank(row[field.name]) ? [] : [String(row[field.name]).trim()];
+        list.forEach(id => {
+          if (!ids.has(id)) {
+            report({
+              code: 'unknown-reference',
+              message: `${entity}: Row ${rowNumber(row, idx)} requests unknown ${label} '${id}'`,
+              cells: [cellRef(entity, row, idx, field.name, `Unknown ${label} ID: ${id}`)],
+            });
+          }
+        });
+      });
+    }));
+  },
+};
+
+const skillCoverage: Validator = {
+  id: 'skill-coverage',
+  label: 'Skill coverage',
+  description: "Every RequiredSkill of a task appears in some worker's Skills",
+  severity: 'error',
+  inputs: ['workers', 'tasks'],
+  validate: ({ data }, report) => {
+    const bySkill = workersBySkill(data.workers);
+    data.tasks.forEach(({ row, idx, requiredSkills }) => {
+      requiredSkills.forEach(skill => {
+        if (!bySkill.has(skill)) {
+          report({
+            code: 'unknown-skill',
+            message: `tasks: Row ${rowNumber(row, idx)} requires skill '${skill}' not found in any worker`,
+            cells: [cellRef('tasks', row, idx, 'RequiredSkills', `No worker with skill: ${skill}`)],
+          });
+        }
+      });
+    });
+  },
+};
+
+const maxConcurrency: Validator = {
+  id: 'max-concurrency',
+  label: 'Max concurrency',
+  description: 'Enough qualified workers exist for each task to run MaxConcurrent at once',
+  severity: 'warning',
+  inputs: ['workers', 'tasks'],
+  validate: ({ data }, report) => {
+    const bySkill = workersBySkill(data.workers);
+    data.tasks.forEach(({ row, idx, requiredSkills, maxConcurrent }) => {
+      if (requiredSkills.length === 0) return;
+      const needed = maxConcurrent ?? 1;
+      // Stops counting once there are enough, so common skills don't cost a pass over every worker.
+      const qualifiedWorkers = new Set<NormalizedWorker>();
+      for (const skill of requiredSkills) {
+        for (const worker of bySkill.get(skill) || []) {
+          qualifiedWorkers.add(worker);
+          if (qualifiedWorkers.size >= needed) break;
+        }
+        if (qualifiedWorkers.size >= needed) break;
+      }
+      if (qualifiedWorkers.size < needed) {
+        report({
+          code: 'max-concurrency-infeasible',
+          message: `tasks: Row ${rowNumber(row, idx)} max concurrency not feasible`,
+          cells: [cellRef('tasks', row, idx, 'MaxConcurrent', `Max concurrent (${needed}) exceeds qualified workers (${qualifiedWorkers.size})`)],
+        });
+      }
+    });
+  },
+};
+
+const circularCoRuns: Validator = {
+  id: 'circular-corun',
+  label: 'Co-run cycles',
+  description: 'Co-run rules do not form a circular dependency',
+  severity: 'error',
+  inputs: ['rules'],
+  validate: ({ rules }, report) => {
+    const coRunRules = rules.filter((r: any) => r.type === 'coRun') as any[];
+    const graph: Record<string, string[]> = {};
+
+    coRunRules.forEach(rule => {
+      rule.tasks.forEach((task: string) => {
+        if (!graph[task]) graph[task] = [];
+        rule.tasks.forEach((otherTask: string) => {
+          if (task !== otherTask && !graph[task].includes(otherTask)) {
+            graph[task].push(otherTask);
+          }
+        });
+      });
+    });
+
+    const visited = new Set<string>();
+    const recStack = new Set<string>();
+
+    function hasCycle(task: string): boolean {
+      if (recStack.has(task)) return true;
+      if (visited.has(task)) return false;
+
+      visited.add(task);
+      recStack.add(task);
+
+      for (const neighbor of graph[task] || []) {
+        if (hasCycle(neighbor)) return true;
+      }
+
+      recStack.delete(task);
+      return false;
+    }
+
+    for (const task of Object.keys(graph)) {
+      if (!visited.has(task) && hasCycle(task)) {
+        report({
+          code: 'circular-corun',
+          message: `Circular co-run dependency detected involving task ${task}`,
+          suggestion: 'Review co-run rules to eliminate circular dependencies',
+        });
+        break;
+      }
+    }
+  },
+};
+
+// Worker slots available per phase (`total`) against the durations of the tasks preferring it
+// (`used`). Shared with the allocation diagnostics so both report the same numbers.
+export function phaseSlotSaturation(data: Pick<NormalizedData, 'workers' | 'tasks'>): Record<number, { total: number; used: number }> {
+  const phaseSlots: Record<number, { total: number; used: number }> = {};
+
+  // Calculate total available slots per phase
+  data.workers.forEach(worker => {
+    worker.availableSlots.forEach(phase => {
+      if (!phaseSlots[phase]) phaseSlots[phase] = { total: 0, used: 0 };
+      phaseSlots[phase].total += worker.maxLoadPerPhase ?? 1;
+    });
+  });
+
+  // Calculate used slots per phase
+  data.tasks.forEach(task => {
+    task.preferredPhases.forEach(phase => {
+      if (phaseSlots[phase]) {
+        phaseSlots[phase].used += task.duration ?? 1;
+      }
+    });
+  });
+  return phaseSlots;
+}
+
+const phaseSaturation: Validator = {
+  id: 'phase-saturation',
+  label: 'Phase saturation',
+  description: 'Task durations preferring a phase fit the worker slots available in it',
+  severity: 'warning',
+  inputs: ['workers', 'tasks'],
+  validate: ({ data }, report) => {
+    Object.entries(phaseSlotSaturation(data)).forEach(([phase, slots]) => {
+      if (slots.used > slots.total) {
+        report({
+          code: 'phase-oversaturated',
+          message: `Phase ${phase} is oversaturated: ${slots.used} slots needed, ${slots.total} available`,
+          suggestion: `Consider reducing task durations or adding more workers for phase ${phase}`,
+        });
+      }
+    });
+  },
+};
+
+const ruleChecks: Validator = {
+  id: 'rules',
+  label: 'Business rules',
+  description: 'Each rule can be satisfied with the current data',
+  severity: 'error',
+  inputs: ['clients', 'workers', 'tasks', 'rules'],
+  validate: ({ clients, workers, tasks, rules, calendar, data }, report) => {
+    const { ruleErrors, ruleHints } = validateRules({ clients, workers, tasks, rules, calendar, data });
+    Object.entries(ruleErrors).forEach(([key, messages]) => {
+      const index = Number(key);
+      messages.forEach((message, i) => report({
+        code: 'invalid-rule',
+        message: `Rule ${index + 1} (${rules[index]?.type}): ${message}`,
+        rule: { index, message },
+        suggestion: ruleHints[index]?.[i],
+      }));
+    });
+  },
+};
+
+export const BUILTIN_VALIDATORS: Validator[] = [
+  parseIssues,
+  missingColumns,
+  duplicateIds,
+  listFormat,
+  phaseCalendar,
+  numbers,
+  jsonFormat,
+  references,
+  skillCoverage,
+  workerOverload,
+  maxConcurrency,
+  circularCoRuns,
+  phaseSaturation,
+  ruleChecks,
+];
@@ -0,0 +1,97 @@
+import * as XLSX from 'xlsx';
+import type { Entity } from './validationUtils';
+import type { Rule } from '../components/RuleBuilder';
+import { SchemaRegistry, ENTITIES, exportColumns } from './entitySchema';
+import { headersOf, suggestMapping } from './columnMapping';
+import { stripCorrectionMarkers } from './correctionUtils';
+import { readSpreadsheetSheets, rowsToSheet } from './fileFormats';
+import { canonicalRows } from './normalizeData';
+import type { PhaseCalendar } from './phaseCalendar';
+
+// One workbook holding clients, workers and tasks (and rules on export) instead of three files.
+
+export interface SheetData {
+  name: string;
+  headers: string[];
+  rows: any[];
+}
+
+export interface SheetDetection {
+  entity: Entity | null;
+  // 0..1: share of the entity's required columns the headers match, plus a hint from the sheet name.
+  score: number;
+}
+
+export interface WorkbookImport {
+  fileName: string;
+  sheets: SheetData[];
+  detections: Record<string, SheetDetection>;
+}
+
+export interface WorkbookExportData {
+  clients: readonly any[];
+  workers: readonly any[];
+  tasks: readonly any[];
+  rules: Rule[];
+}
+
+const MIN_DETECTION_SCORE = 0.3;
+
+const SHEET_NAMES: Record<Entity, string> = {
+  clients: 'Clients',
+  workers: 'Workers',
+  tasks: 'Tasks',
+};
+
+export function readWorkbookSheets(data: ArrayBuffer, fileName: string): SheetData[] {
+  return readSpreadsheetSheets(data, fileName)
+    .map(({ name, rows }) => ({ name, headers: headersOf(rows), rows }))
+    .filter(sheet => sheet.rows.length > 0);
+}
+
+export function scoreSheet(sheet: SheetData, entity: Entity, schemas: SchemaRegistry): number {
+  const schema = schemas[entity];
+  const required = schema.fields.filter(f => f.required).map(f => f.name);
+  const { mapping, confidence } = suggestMapping(sheet.headers, schema);
+  const matched = sheet.headers.filter(
+    h => required.includes(mapping[h]) && (confidence[h] === 'exact' || confidence[h] === 'high')
+  ).length;
+  const nameHint = sheet.name.toLowerCase().includes(schema.label.toLowerCase()) ? 0.2 : 0;
+  return Math.min(1, (required.length ? matched / required.length : 0) + nameHint);
+}
+
+// Each entity goes to at most one sheet: the best-scoring sheet/entity pairs are fixed first.
+export function detectSheets(sheets: SheetData[], schemas: SchemaRegistry): Record<string, SheetDetection> {
+  const detections: Record<string, SheetDetection> = {};
+  const pairs: { sheet: string; entity: Entity; score: number }[] = [];
+  sheets.forEach(sheet => {
+    detections[sheet.name] = { entity: null, score: 0 };
+    ENTITIES.forEach(entity => pairs.push({ sheet: sheet.name, entity, score: scoreSheet(sheet, entity, schemas) }));
+  });
+  pairs.sort((a, b) => b.score - a.score);
+  const taken = new Set<Entity>();
+  pairs.forEach(({ sheet, entity, score }) => {
+    if (score < MIN_DETECTION_SCORE || taken.has(entity) || detections[sheet].entity) return;
+    detections[sheet] = { entity, score };
+    taken.add(entity);
+  });
+  return detections;
+}
+
+// Cleaned entities in schema column order, plus a Rules sheet with one JSON rule per row so the
+// rules survive a round trip through a spreadsheet.
+export function buildExportWorkbook(
+  data: WorkbookExportData,
+  schemas: SchemaRegistry,
+  bookType: 'xlsx' | 'ods' = 'xlsx',
+  calendar?: PhaseCalendar
+): ArrayBuffer {
+  const workbook = XLSX.utils.book_new();
+  ENTITIES.forEach(entity => {
+    const rows = canonicalRows(entity, stripCorrectionMarkers(data[entity]), schemas[entity], calendar);
+    XLSX.utils.book_append_sheet(workbook, rowsToSheet(rows, exportColumns(schemas[entity], rows)), SHEET_NAMES[entity]);
+  });
+  const ruleRows = data.rules.map((rule, i) => ({ '#': i + 1, type: rule.type, rule: JSON.stringify(rule) }));
+  XLSX.utils.book_append_sheet(workbook, rowsToSheet(ruleRows, ['#', 'type', 'rule']), 'Rules');
+  return XLSX.write(workbook, { bookType, type: 'array' });
+}
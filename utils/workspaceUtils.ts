@@ -0,0 +1,183 @@
+import type { Rule } from '../components/RuleBuilder';
+import type { Weights } from '../components/PrioritizationSliders';
+import { CustomField, normalizeCustomFields } from './entitySchema';
+import { ensureRowKeys, ROW_KEY_FIELD } from './rowKeys';
+import { normalizePhaseCalendar, PhaseCalendar } from './phaseCalendar';
+import { parseWeights } from './ruleImport';
+
+export const WORKSPACE_BUNDLE_FORMAT = 'data-alchemist-workspace';
+export const WORKSPACE_VERSION = 2;
+
+const INDEX_KEY = 'data-alchemist:workspaces';
+const ACTIVE_KEY = 'data-alchemist:active-workspace';
+const workspaceKey = (id: string) => `data-alchemist:workspace:${id}`;
+
+export interface Workspace {
+  id: string;
+  name: string;
+  clients: any[];
+  workers: any[];
+  tasks: any[];
+  rules: Rule[];
+  weights: Weights;
+  // Columns added on top of the built-in entity schemas.
+  customFields?: CustomField[];
+  // Ids of validators switched off for this workspace.
+  disabledValidators?: string[];
+  phaseCalendar?: PhaseCalendar;
+  metadata: {
+    createdAt: string;
+    updatedAt: string;
+    version: number;
+  };
+}
+
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  updatedAt: string;
+  totalClients: number;
+  totalWorkers: number;
+  totalTasks: number;
+}
+
+function getStorage(): Storage | null {
+  return typeof window !== 'undefined' && window.localStorage ? window.localStorage : null;
+}
+
+function readIndex(): WorkspaceSummary[] {
+  const storage = getStorage();
+  if (!storage) return [];
+  try {
+    const parsed = JSON.parse(storage.getItem(INDEX_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeIndex(index: WorkspaceSummary[]) {
+  getStorage()?.setItem(INDEX_KEY, JSON.stringify(index));
+}
+
+export function createWorkspaceId(): string {
+  return `ws-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function listWorkspaces(): WorkspaceSummary[] {
+  return readIndex().sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function saveWorkspace(workspace: Workspace): Workspace {
+  const storage = getStorage();
+  if (!storage) throw new Error('Local storage is not available');
+  const saved: Workspace = {
+    ...workspace,
+    metadata: { ...workspace.metadata, updatedAt: new Date().toISOString(), version: WORKSPACE_VERSION },
+  };
+  // setItem throws QuotaExceededError for very large datasets; callers surface that to the user.
+  storage.setItem(workspaceKey(saved.id), JSON.stringify(saved));
+  const summary: WorkspaceSummary = {
+    id: saved.id,
+    name: saved.name,
+    updatedAt: saved.metadata.updatedAt,
+    totalClients: saved.clients.length,
+    totalWorkers: saved.workers.length,
+    totalTasks: saved.tasks.length,
+  };
+  writeIndex([...readIndex().filter(ws => ws.id !== saved.id), summary]);
+  return saved;
+}
+
+export function loadWorkspace(id: string): Workspace | null {
+  const raw = getStorage()?.getItem(workspaceKey(id));
+  if (!raw) return null;
+  try {
+    return normalizeWorkspace(JSON.parse(raw));
+  } catch {
+    return null;
+  }
+}
+
+export function deleteWorkspace(id: string) {
+  const storage = getStorage();
+  if (!storage) return;
+  storage.removeItem(workspaceKey(id));
+  writeIndex(readIndex().filter(ws => ws.id !== id));
+  if (getActiveWorkspaceId() === id) storage.removeItem(ACTIVE_KEY);
+}
+
+export function getActiveWorkspaceId(): string | null {
+  return getStorage()?.getItem(ACTIVE_KEY) || null;
+}
+
+export function setActiveWorkspaceId(id: string | null) {
+  const storage = getStorage();
+  if (!storage) return;
+  if (id) storage.setItem(ACTIVE_KEY, id);
+  else storage.removeItem(ACTIVE_KEY);
+}
+
+// Version 1 kept the internal row key in `id`; it moves to ROW_KEY_FIELD.
+function migrateRowKeys(rows: any[], version: number): any[] {
+  if (version >= 2) return rows;
+  return rows.map(row => {
+    if (!row || typeof row !== 'object' || ROW_KEY_FIELD in row || !('id' in row)) return row;
+    const { id, ...rest } = row;
+    return { ...rest, [ROW_KEY_FIELD]: id };
+  });
+}
+
+function normalizeWorkspace(value: any): Workspace {
+  if (!value || typeof value !== 'object') throw new Error('Workspace must be an object');
+  const now = new Date().toISOString();
+  const asArray = (field: string) => {
+    if (value[field] === undefined) return [];
+    if (!Array.isArray(value[field])) throw new Error(`Workspace field '${field}' must be an array`);
+    return value[field];
+  };
+  // Unknown keys are dropped and bad values fall back to the defaults, as in the rules importer.
+  const { weights } = parseWeights(value.weights);
+  if (!weights) throw new Error('Workspace is missing weights');
+  const version = value.metadata?.version || 1;
+  const rows = (field: string) => ensureRowKeys(migrateRowKeys(asArray(field), version));
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : createWorkspaceId(),
+    name: typeof value.name === 'string' && value.name ? value.name : 'Untitled workspace',
+    // Older workspaces keyed rows by business ID, which may be blank or duplicated.
+    clients: rows('clients'),
+    workers: rows('workers'),
+    tasks: rows('tasks'),
+    rules: asArray('rules'),
+    weights,
+    customFields: normalizeCustomFields(value.customFields),
+    disabledValidators: asArray('disabledValidators').filter((id: any) => typeof id === 'string'),
+    phaseCalendar: normalizePhaseCalendar(value.phaseCalendar),
+    metadata: {
+      createdAt: value.metadata?.createdAt || now,
+      updatedAt: value.metadata?.updatedAt || now,
+      version: WORKSPACE_VERSION,
+    },
+  };
+}
+
+// A bundle is the single-file form of a workspace used for download/upload.
+export function serializeWorkspaceBundle(workspace: Workspace): string {
+  return JSON.stringify({ format: WORKSPACE_BUNDLE_FORMAT, version: WORKSPACE_VERSION, workspace }, null, 2);
+}
+
+export function parseWorkspaceBundle(text: string): Workspace {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Workspace bundle is not valid JSON');
+  }
+  if (parsed?.format !== WORKSPACE_BUNDLE_FORMAT) {
+    throw new Error('File is not a Data Alchemist workspace bundle');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > WORKSPACE_VERSION) {
+    throw new Error(`Unsupported workspace bundle version: ${parsed.version}`);
+  }
+  return normalizeWorkspace(parsed.workspace);
+}